@@ -0,0 +1,109 @@
+import {
+  type BundleStore,
+  type SavedBundle,
+  getBundleStore,
+  normalizeSlug,
+  readBundleRequest,
+  readEditToken,
+  verifyEditToken,
+} from "@/lib/bundles";
+import { type FeedConfig, FeedConfigError } from "@/lib/config";
+import { type NextRequest, NextResponse } from "next/server";
+
+type RouteContext = { params: Promise<{ slug: string }> };
+
+// Looks up the bundle a request is about, or the error response to send
+async function findBundle(
+  context: RouteContext,
+): Promise<
+  | { store: BundleStore; bundle: SavedBundle; response?: undefined }
+  | { response: NextResponse }
+> {
+  const store = getBundleStore();
+  if (!store) {
+    return {
+      response: NextResponse.json(
+        { error: "Short links are not enabled on this server" },
+        { status: 503 },
+      ),
+    };
+  }
+  const { slug } = await context.params;
+  const normalized = normalizeSlug(slug);
+  const bundle = normalized ? await store.get(normalized) : undefined;
+  if (!bundle) {
+    return {
+      response: NextResponse.json(
+        { error: `No saved feed called "${slug}"` },
+        { status: 404 },
+      ),
+    };
+  }
+  return { store, bundle };
+}
+
+function forbidden(): NextResponse {
+  return NextResponse.json(
+    { error: "A valid edit token is required" },
+    { status: 403, headers: { "WWW-Authenticate": "Bearer" } },
+  );
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  const found = await findBundle(context);
+  if (found.response) {
+    return found.response;
+  }
+  const { bundle } = found;
+  return NextResponse.json({
+    slug: bundle.slug,
+    config: bundle.config,
+    created_at: bundle.createdAt,
+    updated_at: bundle.updatedAt,
+  });
+}
+
+// Replaces the saved config; needs the edit token
+export async function PUT(request: NextRequest, context: RouteContext) {
+  const found = await findBundle(context);
+  if (found.response) {
+    return found.response;
+  }
+  const { store, bundle } = found;
+  if (!verifyEditToken(bundle, readEditToken(request.headers))) {
+    return forbidden();
+  }
+
+  let config: FeedConfig;
+  try {
+    config = await readBundleRequest(request);
+  } catch (error) {
+    if (error instanceof FeedConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const updated = { ...bundle, config, updatedAt: new Date().toISOString() };
+  await store.update(updated);
+  return NextResponse.json({
+    slug: updated.slug,
+    config: updated.config,
+    created_at: updated.createdAt,
+    updated_at: updated.updatedAt,
+  });
+}
+
+// Deletes the bundle, after which its short link 404s; needs the edit token
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const found = await findBundle(context);
+  if (found.response) {
+    return found.response;
+  }
+  const { store, bundle } = found;
+  if (!verifyEditToken(bundle, readEditToken(request.headers))) {
+    return forbidden();
+  }
+  await store.delete(bundle.slug);
+  return new NextResponse(null, { status: 204 });
+}
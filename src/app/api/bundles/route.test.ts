@@ -0,0 +1,197 @@
+import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { NextRequest } from "next/server";
+import { GET as getShortLink } from "../../f/[slug]/route";
+import { DELETE, GET, PUT } from "./[slug]/route";
+import { POST } from "./route";
+
+process.env.FEED_URL_ALLOWLIST = "localhost";
+
+const feed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Bundled Feed</title>
+    <item>
+      <title>Bundled item</title>
+      <guid>bundled</guid>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+const config = {
+  version: 2,
+  sources: [{ url: "http://localhost:9976/feed.xml", title: "Bundled" }],
+};
+
+const jsonRequest = (
+  url: string,
+  method: string,
+  body?: unknown,
+  token?: string,
+) =>
+  new NextRequest(url, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const context = (slug: string) => ({ params: Promise.resolve({ slug }) });
+
+describe("Saved bundles", () => {
+  let directory: string;
+  let server: ReturnType<typeof Bun.serve>;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), "rssrssrss-bundles-"));
+    process.env.BUNDLE_STORE = "fs";
+    process.env.BUNDLE_STORE_DIR = directory;
+    server = Bun.serve({
+      port: 9976,
+      fetch(req) {
+        if (new URL(req.url).pathname === "/feed.xml") {
+          return new Response(feed, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+  });
+
+  afterAll(async () => {
+    server.stop();
+    delete process.env.BUNDLE_STORE;
+    delete process.env.BUNDLE_STORE_DIR;
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should create, serve, update and delete a bundle", async () => {
+    const created = await POST(
+      jsonRequest("http://localhost:3000/api/bundles", "POST", { config }),
+    );
+    expect(created.status).toBe(201);
+    const { slug, url, edit_token } = await created.json();
+    expect(slug).toMatch(/^[a-z2-9]{6}$/);
+    expect(url).toBe(`http://localhost:3000/f/${slug}`);
+    expect(edit_token).toBeTruthy();
+
+    // Short links are case-insensitive
+    const upper = slug.toUpperCase();
+    const served = await getShortLink(
+      new NextRequest(`http://localhost:3000/f/${upper}?format=json`),
+    );
+    expect(served.status).toBe(200);
+    const json = await served.json();
+    expect(json.items[0].title).toBe("Bundled item");
+    expect(json.feed_url).toBe(`http://localhost:3000/f/${upper}?format=json`);
+
+    const read = await GET(
+      new NextRequest(`http://localhost:3000/api/bundles/${slug}`),
+      context(upper),
+    );
+    expect((await read.json()).config.sources[0].title).toBe("Bundled");
+
+    const updatedConfig = {
+      ...config,
+      sources: [{ ...config.sources[0], title: "Renamed" }],
+    };
+    const forbidden = await PUT(
+      jsonRequest(
+        `http://localhost:3000/api/bundles/${slug}`,
+        "PUT",
+        { config: updatedConfig },
+        "wrong-token",
+      ),
+      context(slug),
+    );
+    expect(forbidden.status).toBe(403);
+
+    const updated = await PUT(
+      jsonRequest(
+        `http://localhost:3000/api/bundles/${slug}`,
+        "PUT",
+        { config: updatedConfig },
+        edit_token,
+      ),
+      context(slug),
+    );
+    expect(updated.status).toBe(200);
+    expect((await updated.json()).config.sources[0].title).toBe("Renamed");
+
+    const unauthorizedDelete = await DELETE(
+      jsonRequest(`http://localhost:3000/api/bundles/${slug}`, "DELETE"),
+      context(slug),
+    );
+    expect(unauthorizedDelete.status).toBe(403);
+
+    const deleted = await DELETE(
+      jsonRequest(
+        `http://localhost:3000/api/bundles/${slug}`,
+        "DELETE",
+        undefined,
+        edit_token,
+      ),
+      context(slug),
+    );
+    expect(deleted.status).toBe(204);
+
+    const gone = await getShortLink(
+      new NextRequest(`http://localhost:3000/f/${slug}`),
+    );
+    expect(gone.status).toBe(404);
+  });
+
+  it("should reject invalid configs", async () => {
+    const response = await POST(
+      jsonRequest("http://localhost:3000/api/bundles", "POST", {
+        config: { version: 99, sources: [] },
+      }),
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain(
+      "Unsupported feed configuration version",
+    );
+  });
+
+  it("should reject bodies over the size limit in bytes", async () => {
+    // 30,000 characters, but 90,000 bytes of UTF-8
+    const response = await POST(
+      jsonRequest("http://localhost:3000/api/bundles", "POST", {
+        config: {
+          ...config,
+          sources: [{ ...config.sources[0], title: "日".repeat(30000) }],
+        },
+      }),
+    );
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain(
+      "Request body is larger than",
+    );
+  });
+
+  it("should 404 unknown slugs", async () => {
+    const response = await GET(
+      new NextRequest("http://localhost:3000/api/bundles/zzzzzz"),
+      context("zzzzzz"),
+    );
+    expect(response.status).toBe(404);
+  });
+
+  it("should be unavailable unless a store is configured", async () => {
+    process.env.BUNDLE_STORE = "none";
+    try {
+      const response = await POST(
+        jsonRequest("http://localhost:3000/api/bundles", "POST", { config }),
+      );
+      expect(response.status).toBe(503);
+    } finally {
+      process.env.BUNDLE_STORE = "fs";
+    }
+  });
+});
@@ -0,0 +1,36 @@
+import { createBundle, getBundleStore, readBundleRequest } from "@/lib/bundles";
+import { type FeedConfig, FeedConfigError } from "@/lib/config";
+import { type NextRequest, NextResponse } from "next/server";
+
+// Saves a merged-feed config under a short slug. The response carries the
+// edit token needed to update or delete it, which isn't shown again.
+export async function POST(request: NextRequest) {
+  const store = getBundleStore();
+  if (!store) {
+    return NextResponse.json(
+      { error: "Short links are not enabled on this server" },
+      { status: 503 },
+    );
+  }
+
+  let config: FeedConfig;
+  try {
+    config = await readBundleRequest(request);
+  } catch (error) {
+    if (error instanceof FeedConfigError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+
+  const { bundle, editToken } = await createBundle(store, config);
+  return NextResponse.json(
+    {
+      slug: bundle.slug,
+      url: new URL(`/f/${bundle.slug}`, request.nextUrl).toString(),
+      edit_token: editToken,
+      created_at: bundle.createdAt,
+    },
+    { status: 201 },
+  );
+}
@@ -2,6 +2,13 @@ import { encodeContent } from "@/lib/encoding";
 import { expect, it, describe } from "bun:test";
 import { GET } from "./route";
 import { NextRequest } from "next/server";
+import LZString from "lz-string";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// The fixtures below are served from localhost, which the URL policy blocks
+process.env.FEED_URL_ALLOWLIST = "localhost";
 
 describe("encodeContent", () => {
   it("should encode content", () => {
@@ -182,7 +189,7 @@ describe("GET /api/merge - Title and content extraction", () => {
     }
   });
 
-  it("should extract content after <div class=\"md\"><p> marker", async () => {
+  it("should extract content after <div class=\"md\"><p> marker for sources using the reddit transform", async () => {
     const feed = `<?xml version="1.0" encoding="UTF-8"?>
 <rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
   <channel>
@@ -213,8 +220,17 @@ describe("GET /api/merge - Title and content extraction", () => {
     });
 
     try {
+      const config = {
+        version: 2,
+        sources: [
+          { url: "http://localhost:9997/feed.xml", transforms: ["reddit"] },
+        ],
+      };
       const baseUrl = new URL("http://localhost:3000/api/merge");
-      baseUrl.searchParams.append("url", "http://localhost:9997/feed.xml");
+      baseUrl.searchParams.append(
+        "feeds",
+        LZString.compressToEncodedURIComponent(JSON.stringify(config)),
+      );
 
       const request = new NextRequest(baseUrl);
       const response = await GET(request);
@@ -322,3 +338,2625 @@ describe("GET /api/merge - Title and content extraction", () => {
     }
   });
 });
+
+describe("GET /api/merge - Atom output", () => {
+  it("should output a valid Atom feed with source metadata", async () => {
+    const feed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Test Feed</title>
+    <description>Test feed description</description>
+    <link>http://localhost:9994</link>
+    <item>
+      <title>Test Article &amp; Friends</title>
+      <link>http://localhost:9994/test-article</link>
+      <guid>http://localhost:9994/test-article</guid>
+      <description>Test content: café, 日本語</description>
+      <dc:creator>Jane Doe</dc:creator>
+      <category>News</category>
+      <pubDate>Mon, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+    const server = Bun.serve({
+      port: 9994,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/feed.xml") {
+          return new Response(feed, {
+            status: 200,
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9994/feed.xml");
+      baseUrl.searchParams.append("format", "atom");
+
+      const request = new NextRequest(baseUrl);
+      const response = await GET(request);
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get("content-type")).toContain(
+        "application/atom+xml",
+      );
+      expect(text).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+      expect(text).toContain(
+        '<title type="text">Test Article &amp; Friends</title>',
+      );
+      expect(text).toContain(
+        '<link rel="alternate" href="http://localhost:9994/test-article" />',
+      );
+      expect(text).toContain("<updated>2025-10-28T10:00:00.000Z</updated>");
+      expect(text).toContain("<name>Jane Doe</name>");
+      expect(text).toContain(
+        '<summary type="text">Test content: café, 日本語</summary>',
+      );
+      expect(text).toContain('<category term="News" />');
+      expect(text).toContain("<id>http://localhost:9994/feed.xml</id>");
+      expect(text).toContain("<title>Test Feed</title>");
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should not invent dates or ids for bare entries", async () => {
+    const feed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Bare Feed</title>
+    <item>
+      <title>Dated</title>
+      <guid>dated</guid>
+      <pubDate>Mon, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>No date, guid or link</title>
+    </item>
+  </channel>
+</rss>`;
+
+    const server = Bun.serve({
+      port: 9972,
+      fetch() {
+        return new Response(feed, {
+          headers: { "content-type": "application/rss+xml" },
+        });
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9972/feed.xml");
+      baseUrl.searchParams.append("format", "atom");
+
+      const fetchBareEntry = async () => {
+        const text = await (await GET(new NextRequest(baseUrl))).text();
+        return text.split("<entry>")[2];
+      };
+
+      const bare = await fetchBareEntry();
+      expect(bare).not.toContain("<published>");
+      expect(bare).toContain("<updated>2025-10-28T10:00:00.000Z</updated>");
+      const id = bare.match(/<id>(.*)<\/id>/)?.[1];
+      expect(id).toMatch(
+        /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/,
+      );
+      expect((await fetchBareEntry()).match(/<id>(.*)<\/id>/)?.[1]).toBe(id);
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+describe("GET /api/merge - Deduplication", () => {
+  const feed1 = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Feed 1</title>
+    <link>http://localhost:9993</link>
+    <item>
+      <title>Article 1 from Feed 1</title>
+      <link>http://localhost:9993/article1</link>
+      <pubDate>Mon, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>Article 2 from Feed 1</title>
+      <link>http://localhost:9993/article2</link>
+      <pubDate>Sun, 27 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+  const feed2 = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Feed 2</title>
+    <link>http://localhost:9993</link>
+    <item>
+      <title>Article 1 from Feed 2</title>
+      <link>http://localhost:9993/article1/?utm_source=feed2</link>
+      <pubDate>Mon, 29 Oct 2025 15:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9993,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/feed1.xml") {
+          return new Response(feed1, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        if (url.pathname === "/feed2.xml") {
+          return new Response(feed2, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  it("should keep the earliest copy and record the other sources", async () => {
+    const server = startServer();
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9993/feed1.xml");
+      baseUrl.searchParams.append("url", "http://localhost:9993/feed2.xml");
+      baseUrl.searchParams.append("dedupe", "link");
+
+      const response = await GET(new NextRequest(baseUrl));
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(text).toContain("Article 1 from Feed 1");
+      expect(text).toContain("Article 2 from Feed 1");
+      expect(text).not.toContain("Article 1 from Feed 2");
+      expect(text).toContain(
+        '<category domain="http://localhost:9993/feed2.xml">Feed 2</category>',
+      );
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should re-merge a deduplicated feed", async () => {
+    const server = startServer();
+    let merged = "";
+    const mergedServer = Bun.serve({
+      port: 9969,
+      fetch() {
+        return new Response(merged, {
+          headers: { "content-type": "application/rss+xml" },
+        });
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9993/feed1.xml");
+      baseUrl.searchParams.append("url", "http://localhost:9993/feed2.xml");
+      baseUrl.searchParams.append("dedupe", "link");
+      merged = await (await GET(new NextRequest(baseUrl))).text();
+
+      // Merged feeds list duplicate sources as <category domain="…">
+      const remergeUrl = new URL("http://localhost:3000/api/merge");
+      remergeUrl.searchParams.append("url", "http://localhost:9969/feed.xml");
+      const response = await GET(new NextRequest(remergeUrl));
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(text).toContain("Article 1 from Feed 1");
+      expect(text).toContain("<category>Feed 2</category>");
+    } finally {
+      server.stop();
+      mergedServer.stop();
+    }
+  });
+
+  it("should report duplicate sources as a JSON Feed extension", async () => {
+    const server = startServer();
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9993/feed1.xml");
+      baseUrl.searchParams.append("url", "http://localhost:9993/feed2.xml");
+      baseUrl.searchParams.append("dedupe", "all");
+      baseUrl.searchParams.append("format", "json");
+
+      const response = await GET(new NextRequest(baseUrl));
+      const json = await response.json();
+
+      expect(json.items).toHaveLength(2);
+      expect(json.items[0].title).toBe("Article 1 from Feed 1");
+      expect(json.items[0]._rssrssrss.duplicate_sources).toEqual([
+        { title: "Feed 2", url: "http://localhost:9993/feed2.xml" },
+      ]);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should reject unknown dedupe strategies", async () => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append("url", "http://localhost:9993/feed1.xml");
+    baseUrl.searchParams.append("dedupe", "fuzzy");
+
+    const response = await GET(new NextRequest(baseUrl));
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("GET /api/merge - Versioned feed configuration", () => {
+  const feed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Original Title</title>
+    <link>http://localhost:9992</link>
+    <item>
+      <title>Newest Article</title>
+      <link>http://localhost:9992/newest</link>
+      <pubDate>Tue, 29 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>Older Article</title>
+      <link>http://localhost:9992/older</link>
+      <pubDate>Mon, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+  const encode = (data: unknown) =>
+    LZString.compressToEncodedURIComponent(JSON.stringify(data));
+
+  it("should apply alias titles, item caps and disabled sources", async () => {
+    const server = Bun.serve({
+      port: 9992,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/feed.xml") {
+          return new Response(feed, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append(
+        "feeds",
+        encode({
+          version: 2,
+          sources: [
+            {
+              url: "http://localhost:9992/feed.xml",
+              title: "Aliased Feed",
+              limit: 1,
+              weight: 2,
+            },
+            { url: "http://localhost:9992/missing.xml", enabled: false },
+          ],
+        }),
+      );
+
+      const response = await GET(new NextRequest(baseUrl));
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(text).toContain("Newest Article");
+      expect(text).not.toContain("Older Article");
+      expect(text).toContain(">Aliased Feed</source>");
+      expect(text).not.toContain("Original Title");
+      // The disabled source is never fetched, so it can't fail
+      expect(text).not.toContain("Failed to load feed");
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should still accept version 1 array payloads", async () => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append("feeds", encode([]));
+
+    const response = await GET(new NextRequest(baseUrl));
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.error).toBe("No RSS feed URLs provided");
+  });
+
+  it("should reject unknown configuration versions", async () => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append("feeds", encode({ version: 99, sources: [] }));
+
+    const response = await GET(new NextRequest(baseUrl));
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.error).toContain("Unsupported feed configuration version: 99");
+  });
+});
+
+describe("GET /api/merge - Filters", () => {
+  const news = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>News</title>
+    <link>http://localhost:9991</link>
+    <item>
+      <title>Sponsored: Buy our widget</title>
+      <link>http://localhost:9991/ad</link>
+      <pubDate>Tue, 29 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>Rust 2.0 released</title>
+      <link>http://localhost:9991/rust</link>
+      <category domain="http://localhost:9991/tags">Programming</category>
+      <pubDate>Mon, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>Celebrity gossip</title>
+      <link>http://localhost:9991/gossip</link>
+      <category>Entertainment</category>
+      <pubDate>Sun, 27 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+  const blog = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Blog</title>
+    <link>http://localhost:9991</link>
+    <item>
+      <title>A post brought to you by our SPONSORED partner</title>
+      <link>http://localhost:9991/blog-ad</link>
+      <pubDate>Tue, 29 Oct 2025 12:00:00 GMT</pubDate>
+    </item>
+    <item>
+      <title>Weekend gardening notes</title>
+      <link>http://localhost:9991/garden</link>
+      <pubDate>Mon, 28 Oct 2025 12:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+  it("should apply global and per-source include/exclude rules", async () => {
+    const server = Bun.serve({
+      port: 9991,
+      fetch(req) {
+        const url = new URL(req.url);
+        const body =
+          url.pathname === "/news.xml"
+            ? news
+            : url.pathname === "/blog.xml"
+              ? blog
+              : null;
+        if (body) {
+          return new Response(body, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append(
+        "feeds",
+        LZString.compressToEncodedURIComponent(
+          JSON.stringify({
+            version: 2,
+            filters: [{ action: "exclude", pattern: "sponsored" }],
+            sources: [
+              {
+                url: "http://localhost:9991/news.xml",
+                filters: [
+                  {
+                    action: "include",
+                    pattern: "^program",
+                    regex: true,
+                    fields: ["categories"],
+                  },
+                ],
+              },
+              "http://localhost:9991/blog.xml",
+            ],
+          }),
+        ),
+      );
+
+      const response = await GET(new NextRequest(baseUrl));
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(text).toContain("Rust 2.0 released");
+      expect(text).toContain("Weekend gardening notes");
+      expect(text).not.toContain("Buy our widget");
+      expect(text).not.toContain("SPONSORED partner");
+      expect(text).not.toContain("Celebrity gossip");
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should reject invalid regular expressions", async () => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append(
+      "feeds",
+      LZString.compressToEncodedURIComponent(
+        JSON.stringify({
+          version: 2,
+          filters: [{ action: "exclude", pattern: "(unclosed", regex: true }],
+          sources: ["http://localhost:9991/news.xml"],
+        }),
+      ),
+    );
+
+    const response = await GET(new NextRequest(baseUrl));
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.error).toContain("invalid regular expression");
+  });
+
+  it("should reject lookarounds and backreferences", async () => {
+    for (const pattern of ["foo(?=bar)", "(a)\\1"]) {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append(
+        "feeds",
+        LZString.compressToEncodedURIComponent(
+          JSON.stringify({
+            version: 2,
+            filters: [{ action: "exclude", pattern, regex: true }],
+            sources: ["http://localhost:9991/news.xml"],
+          }),
+        ),
+      );
+
+      const response = await GET(new NextRequest(baseUrl));
+      expect(response.status).toBe(400);
+    }
+  });
+
+  it("should match pathological patterns in linear time", async () => {
+    // Backtracking engines take exponential time on (a+)+$ against a run of
+    // "a"s that doesn't end the string
+    const title = `${"a".repeat(5000)}!`;
+    const server = Bun.serve({
+      port: 9971,
+      fetch() {
+        return new Response(
+          `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Pathological</title>
+    <item><title>${title}</title><guid>aaa</guid></item>
+  </channel>
+</rss>`,
+          { headers: { "content-type": "application/rss+xml" } },
+        );
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append(
+        "feeds",
+        LZString.compressToEncodedURIComponent(
+          JSON.stringify({
+            version: 2,
+            filters: [{ action: "exclude", pattern: "(a+)+$", regex: true }],
+            sources: ["http://localhost:9971/feed.xml"],
+          }),
+        ),
+      );
+      baseUrl.searchParams.append("format", "json");
+
+      const started = performance.now();
+      const response = await GET(new NextRequest(baseUrl));
+      const json = await response.json();
+
+      expect(performance.now() - started).toBeLessThan(1000);
+      expect(json.items.map((item: { title: string }) => item.title)).toEqual([
+        title,
+      ]);
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+describe("GET /api/merge - Output limits", () => {
+  const prolific = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Prolific</title>
+    <link>http://localhost:9990</link>
+${[1, 2, 3, 4, 5]
+  .map(
+    (day) => `    <item>
+      <title>Prolific post ${day}</title>
+      <link>http://localhost:9990/prolific/${day}</link>
+      <pubDate>${new Date(Date.UTC(2025, 9, 20 + day)).toUTCString()}</pubDate>
+    </item>`,
+  )
+  .join("\n")}
+  </channel>
+</rss>`;
+
+  const quiet = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Quiet</title>
+    <link>http://localhost:9990</link>
+    <item>
+      <title>Quiet post</title>
+      <link>http://localhost:9990/quiet/1</link>
+      <pubDate>Mon, 20 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9990,
+      fetch(req) {
+        const url = new URL(req.url);
+        const body =
+          url.pathname === "/prolific.xml"
+            ? prolific
+            : url.pathname === "/quiet.xml"
+              ? quiet
+              : null;
+        if (body) {
+          return new Response(body, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  it("should apply per-source caps, the total limit and report them", async () => {
+    const server = startServer();
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9990/prolific.xml");
+      baseUrl.searchParams.append("url", "http://localhost:9990/quiet.xml");
+      baseUrl.searchParams.append("per_source", "2");
+      baseUrl.searchParams.append("limit", "3");
+      baseUrl.searchParams.append("format", "json");
+
+      const response = await GET(new NextRequest(baseUrl));
+      const json = await response.json();
+
+      expect(response.headers.get("x-merge-limits")).toBe(
+        "limit=3; per_source=2",
+      );
+      expect(json.items.map((item: { title: string }) => item.title)).toEqual([
+        "Prolific post 5",
+        "Prolific post 4",
+        "Quiet post",
+      ]);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should drop items published before `since`", async () => {
+    const server = startServer();
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9990/prolific.xml");
+      baseUrl.searchParams.append("url", "http://localhost:9990/quiet.xml");
+      baseUrl.searchParams.append("since", "2025-10-24T00:00:00Z");
+      baseUrl.searchParams.append("format", "json");
+
+      const response = await GET(new NextRequest(baseUrl));
+      const json = await response.json();
+
+      expect(response.headers.get("x-merge-limits")).toBe(
+        "limit=100; since=2025-10-24T00:00:00.000Z",
+      );
+      expect(json.items.map((item: { title: string }) => item.title)).toEqual([
+        "Prolific post 5",
+        "Prolific post 4",
+      ]);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should reject limits above the server-side maximum", async () => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append("url", "http://localhost:9990/prolific.xml");
+    baseUrl.searchParams.append("limit", "100000");
+
+    const response = await GET(new NextRequest(baseUrl));
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.error).toBe("limit must be at most 500");
+  });
+});
+
+describe("GET /api/merge - Conditional responses", () => {
+  const feed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Test Feed</title>
+    <link>http://localhost:9989</link>
+    <item>
+      <title>Test Article</title>
+      <link>http://localhost:9989/test-article</link>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9989,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/feed.xml") {
+          return new Response(feed, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  for (const format of ["rss", "json", "atom"]) {
+    it(`should answer a matching If-None-Match with 304 (${format})`, async () => {
+      const server = startServer();
+
+      try {
+        const baseUrl = new URL("http://localhost:3000/api/merge");
+        baseUrl.searchParams.append("url", "http://localhost:9989/feed.xml");
+        baseUrl.searchParams.append("format", format);
+
+        const first = await GET(new NextRequest(baseUrl));
+        const etag = first.headers.get("etag");
+        expect(first.status).toBe(200);
+        expect(etag).toBeTruthy();
+        expect(first.headers.get("last-modified")).toBe(
+          "Tue, 28 Oct 2025 10:00:00 GMT",
+        );
+
+        const second = await GET(
+          new NextRequest(baseUrl, {
+            headers: { "If-None-Match": etag as string },
+          }),
+        );
+        expect(second.status).toBe(304);
+        expect(second.headers.get("etag")).toBe(etag);
+        expect(await second.text()).toBe("");
+      } finally {
+        server.stop();
+      }
+    });
+  }
+
+  it("should honor If-Modified-Since", async () => {
+    const server = startServer();
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9989/feed.xml");
+
+      const unchanged = await GET(
+        new NextRequest(baseUrl, {
+          headers: { "If-Modified-Since": "Tue, 28 Oct 2025 10:00:00 GMT" },
+        }),
+      );
+      expect(unchanged.status).toBe(304);
+
+      const stale = await GET(
+        new NextRequest(baseUrl, {
+          headers: { "If-Modified-Since": "Mon, 27 Oct 2025 10:00:00 GMT" },
+        }),
+      );
+      expect(stale.status).toBe(200);
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+describe("GET /api/merge - Single fetch per source", () => {
+  it("should fetch each source exactly once and detect its format", async () => {
+    const rss = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>RSS Feed</title>
+    <item>
+      <title>RSS item</title>
+      <link>http://localhost:9988/rss-item</link>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+    const atom = `<?xml version="1.0" encoding="utf-8"?>
+<!-- served with a generic content type on purpose -->
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <title>Atom Feed</title>
+  <id>urn:test:atom</id>
+  <updated>2025-10-27T10:00:00Z</updated>
+  <entry>
+    <title>Atom entry</title>
+    <id>urn:test:atom:1</id>
+    <link href="http://localhost:9988/atom-entry" />
+    <updated>2025-10-27T10:00:00Z</updated>
+  </entry>
+</feed>`;
+
+    const rdf = `<?xml version="1.0" encoding="UTF-8"?>
+<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#" xmlns="http://purl.org/rss/1.0/">
+  <channel rdf:about="http://localhost:9988/">
+    <title>RDF Feed</title>
+    <link>http://localhost:9988/</link>
+  </channel>
+  <item rdf:about="http://localhost:9988/rdf-item">
+    <title>RDF item</title>
+    <link>http://localhost:9988/rdf-item</link>
+  </item>
+</rdf:RDF>`;
+
+    const jsonFeed = JSON.stringify({
+      version: "https://jsonfeed.org/version/1.1",
+      title: "JSON Feed",
+      items: [
+        {
+          id: "json-1",
+          url: "http://localhost:9988/json-item",
+          title: "JSON item",
+          content_html: "<p>JSON content</p>",
+          date_published: "2025-10-26T10:00:00Z",
+        },
+      ],
+    });
+
+    const requests: Record<string, number> = {};
+    const server = Bun.serve({
+      port: 9988,
+      fetch(req) {
+        const url = new URL(req.url);
+        requests[url.pathname] = (requests[url.pathname] || 0) + 1;
+        switch (url.pathname) {
+          case "/rss.xml":
+            return new Response(rss, {
+              headers: { "content-type": "application/rss+xml" },
+            });
+          case "/atom":
+            return new Response(atom, {
+              headers: { "content-type": "text/plain" },
+            });
+          case "/rdf.xml":
+            return new Response(rdf, {
+              headers: { "content-type": "application/rdf+xml" },
+            });
+          case "/feed.json":
+            return new Response(jsonFeed, {
+              headers: { "content-type": "application/feed+json" },
+            });
+          default:
+            return new Response("Not found", { status: 404 });
+        }
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      for (const path of ["/rss.xml", "/atom", "/rdf.xml", "/feed.json"]) {
+        baseUrl.searchParams.append("url", `http://localhost:9988${path}`);
+      }
+
+      const response = await GET(new NextRequest(baseUrl));
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(text).toContain("RSS item");
+      expect(text).toContain("Atom entry");
+      expect(text).toContain("RDF item");
+      expect(text).toContain("JSON item");
+      expect(requests).toEqual({
+        "/rss.xml": 1,
+        "/atom": 1,
+        "/rdf.xml": 1,
+        "/feed.json": 1,
+      });
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+describe("GET /api/merge - Upstream cache", () => {
+  const feed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Cached Feed</title>
+    <item>
+      <title>Cached Article</title>
+      <link>http://localhost:9987/cached-article</link>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+  const startServer = (log: string[]) =>
+    Bun.serve({
+      port: 9987,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (req.headers.get("if-none-match") === '"v1"') {
+          log.push(`304 ${url.pathname}`);
+          return new Response(null, { status: 304 });
+        }
+        log.push(`200 ${url.pathname}`);
+        return new Response(feed, {
+          headers: { "content-type": "application/rss+xml", etag: '"v1"' },
+        });
+      },
+    });
+
+  it("should revalidate with If-None-Match and reuse the cached parse", async () => {
+    const log: string[] = [];
+    const server = startServer(log);
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9987/revalidate.xml");
+
+      const first = await (await GET(new NextRequest(baseUrl))).text();
+      const second = await (await GET(new NextRequest(baseUrl))).text();
+
+      expect(log).toEqual(["200 /revalidate.xml", "304 /revalidate.xml"]);
+      expect(first).toContain("Cached Article");
+      expect(second).toContain("Cached Article");
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should serve fresh entries from the filesystem without refetching", async () => {
+    const log: string[] = [];
+    const server = startServer(log);
+    const directory = await mkdtemp(join(tmpdir(), "rssrssrss-test-"));
+    process.env.UPSTREAM_CACHE = "fs";
+    process.env.UPSTREAM_CACHE_DIR = directory;
+    process.env.UPSTREAM_CACHE_TTL = "60";
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9987/fresh.xml");
+
+      await GET(new NextRequest(baseUrl));
+      const text = await (await GET(new NextRequest(baseUrl))).text();
+
+      expect(log).toEqual(["200 /fresh.xml"]);
+      expect(text).toContain("Cached Article");
+      expect(await readdir(directory)).toHaveLength(1);
+    } finally {
+      delete process.env.UPSTREAM_CACHE;
+      delete process.env.UPSTREAM_CACHE_DIR;
+      delete process.env.UPSTREAM_CACHE_TTL;
+      await rm(directory, { recursive: true, force: true });
+      server.stop();
+    }
+  });
+});
+
+describe("GET /api/merge - Timeouts, retries and size limits", () => {
+  const feed = (title: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>${title}</title>
+    <item>
+      <title>${title} article</title>
+      <link>http://localhost:9986/${encodeURIComponent(title)}</link>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+  const env = {
+    FETCH_TIMEOUT_MS: "200",
+    FETCH_RETRIES: "1",
+    FETCH_MAX_BYTES: "2000",
+    REQUEST_DEADLINE_MS: "600",
+  };
+
+  it("should retry server errors, time out slow sources and cap body size", async () => {
+    Object.assign(process.env, env, { REQUEST_DEADLINE_MS: "3000" });
+    let flakyRequests = 0;
+    const server = Bun.serve({
+      port: 9986,
+      async fetch(req) {
+        const url = new URL(req.url);
+        switch (url.pathname) {
+          case "/flaky.xml":
+            flakyRequests++;
+            return flakyRequests === 1
+              ? new Response("Unavailable", { status: 503 })
+              : new Response(feed("Flaky"), {
+                  headers: { "content-type": "application/rss+xml" },
+                });
+          case "/slow.xml":
+            await Bun.sleep(1000);
+            return new Response(feed("Slow"));
+          case "/huge.xml":
+            return new Response(feed("Huge").replace("<item>", `<item>${" ".repeat(5000)}`));
+          default:
+            return new Response("Not found", { status: 404 });
+        }
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9986/flaky.xml");
+      baseUrl.searchParams.append("url", "http://localhost:9986/slow.xml");
+      baseUrl.searchParams.append("url", "http://localhost:9986/huge.xml");
+
+      const response = await GET(new NextRequest(baseUrl));
+      const text = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(flakyRequests).toBe(2);
+      expect(text).toContain("Flaky article");
+      expect(text).not.toContain("Slow article");
+      expect(text).toContain("Timed out after 200ms");
+      expect(text).not.toContain("Huge article");
+      expect(text).toContain("Response is larger than the 2000 byte limit");
+    } finally {
+      for (const name of Object.keys(env)) {
+        delete process.env[name];
+      }
+      server.stop(true);
+    }
+  });
+
+  it("should return what has arrived when the request deadline passes", async () => {
+    Object.assign(process.env, env, { FETCH_TIMEOUT_MS: "5000" });
+    const server = Bun.serve({
+      port: 9986,
+      async fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/slow.xml") {
+          await Bun.sleep(2000);
+        }
+        return new Response(feed(url.pathname === "/slow.xml" ? "Slow" : "Fast"));
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9986/fast.xml");
+      baseUrl.searchParams.append("url", "http://localhost:9986/slow.xml");
+
+      const started = Date.now();
+      const response = await GET(new NextRequest(baseUrl));
+      const text = await response.text();
+
+      expect(Date.now() - started).toBeLessThan(1500);
+      expect(text).toContain("Fast article");
+      expect(text).not.toContain("Slow article");
+      expect(text).toContain("⚠️ Failed to load feed: http://localhost:9986/slow.xml");
+      expect(text).toContain("No response within the 600ms request deadline");
+    } finally {
+      for (const name of Object.keys(env)) {
+        delete process.env[name];
+      }
+      server.stop(true);
+    }
+  });
+});
+
+describe("GET /api/merge - URL policy", () => {
+  it("should report private, loopback and non-HTTP URLs as failed feeds", async () => {
+    const allowlist = process.env.FEED_URL_ALLOWLIST;
+    delete process.env.FEED_URL_ALLOWLIST;
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9985/feed.xml");
+      baseUrl.searchParams.append("url", "http://169.254.169.254/latest/meta-data/");
+      baseUrl.searchParams.append("url", "http://[::ffff:10.0.0.1]/feed.xml");
+      baseUrl.searchParams.append("url", "file:///etc/passwd");
+
+      const response = await GET(new NextRequest(baseUrl));
+      const text = await response.text();
+
+      expect(text).toContain(
+        "Blocked request to localhost: 127.0.0.1 is not a public address",
+      );
+      expect(text).toContain(
+        "Blocked request to 169.254.169.254: 169.254.169.254 is not a public address",
+      );
+      expect(text).toContain("Blocked request to ::ffff:a00:1");
+      expect(text).toContain("Blocked URL scheme &quot;file:&quot;");
+    } finally {
+      process.env.FEED_URL_ALLOWLIST = allowlist;
+    }
+  });
+
+  it("should check every redirect against the policy", async () => {
+    const server = Bun.serve({
+      port: 9985,
+      fetch() {
+        return Response.redirect("http://127.0.0.1:9985/internal.xml", 302);
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9985/feed.xml");
+
+      const response = await GET(new NextRequest(baseUrl));
+      const text = await response.text();
+
+      expect(text).toContain("⚠️ Failed to load feed: http://localhost:9985/feed.xml");
+      expect(text).toContain(
+        "Blocked request to 127.0.0.1: 127.0.0.1 is not a public address",
+      );
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+describe("GET /api/merge - Feed autodiscovery", () => {
+  const feed = (title: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>${title}</title>
+    <item>
+      <title>${title} article</title>
+      <link>http://localhost:9984/${encodeURIComponent(title)}</link>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+  it("should use feeds linked from, or found next to, an HTML page", async () => {
+    const server = Bun.serve({
+      port: 9984,
+      fetch(req) {
+        const url = new URL(req.url);
+        const html = { "content-type": "text/html; charset=utf-8" };
+        switch (url.pathname) {
+          case "/linked/":
+            return new Response(
+              `<!DOCTYPE html><html><head>
+                <link rel="stylesheet" href="/style.css">
+                <link rel="alternate" type="application/rss+xml" title="Linked" href="posts.xml?format=rss&amp;full=1">
+              </head><body>Hello</body></html>`,
+              { headers: html },
+            );
+          case "/linked/posts.xml":
+            return url.searchParams.get("full") === "1"
+              ? new Response(feed("Linked"))
+              : new Response("Not found", { status: 404 });
+          case "/":
+            return new Response("<html><body>No links here</body></html>", {
+              headers: html,
+            });
+          case "/rss.xml":
+            return new Response(feed("Probed"));
+          default:
+            return new Response("Not found", { status: 404 });
+        }
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9984/linked/");
+      baseUrl.searchParams.append("url", "http://localhost:9984/");
+
+      const response = await GET(new NextRequest(baseUrl));
+      const text = await response.text();
+
+      expect(text).toContain("Linked article");
+      expect(text).toContain("Probed article");
+      expect(text).not.toContain("Failed to load feed");
+      expect(text).toContain(
+        '<source url="http://localhost:9984/linked/posts.xml?format=rss&amp;full=1">Linked</source>',
+      );
+
+      const discovered = new URLSearchParams(
+        response.headers.get("x-discovered-feeds") || "",
+      );
+      expect(discovered.get("http://localhost:9984/linked/")).toBe(
+        "http://localhost:9984/linked/posts.xml?format=rss&full=1",
+      );
+      expect(discovered.get("http://localhost:9984/")).toBe(
+        "http://localhost:9984/rss.xml",
+      );
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should remember which feed a page led to", async () => {
+    const log: string[] = [];
+    let feedPath = "/page/feed.xml";
+    const server = Bun.serve({
+      port: 9968,
+      fetch(req) {
+        const url = new URL(req.url);
+        log.push(url.pathname);
+        if (url.pathname === "/page/") {
+          return new Response(
+            `<html><head><link rel="alternate" type="application/rss+xml" href="${feedPath}"></head></html>`,
+            { headers: { "content-type": "text/html" } },
+          );
+        }
+        return url.pathname === feedPath
+          ? new Response(feed("Remembered"))
+          : new Response("Not found", { status: 404 });
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9968/page/");
+
+      await GET(new NextRequest(baseUrl));
+      expect(log).toEqual(["/page/", "/page/feed.xml"]);
+
+      // Later requests skip the page and go straight to its feed
+      log.length = 0;
+      const text = await (await GET(new NextRequest(baseUrl))).text();
+      expect(log).toEqual(["/page/feed.xml"]);
+      expect(text).toContain("Remembered article");
+
+      // Once that feed is gone, the page is searched again
+      feedPath = "/page/moved.xml";
+      log.length = 0;
+      const moved = await (await GET(new NextRequest(baseUrl))).text();
+      expect(log).toEqual(["/page/feed.xml", "/page/", "/page/moved.xml"]);
+      expect(moved).toContain("Remembered article");
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+describe("GET /api/merge - Podcasts and enclosures", () => {
+  const podcast = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd">
+  <channel>
+    <title>Test Podcast</title>
+    <item>
+      <title>Episode 12</title>
+      <link>http://localhost:9983/episodes/12</link>
+      <guid>episode-12</guid>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+      <enclosure url="http://localhost:9983/audio/12.mp3" length="12345678" type="audio/mpeg" />
+      <itunes:duration>1:02:03</itunes:duration>
+      <itunes:episode>12</itunes:episode>
+      <itunes:image href="http://localhost:9983/art/12.jpg" />
+      <itunes:explicit>false</itunes:explicit>
+    </item>
+  </channel>
+</rss>`;
+
+  const jsonFeed = JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: "JSON Podcast",
+    items: [
+      {
+        id: "json-episode",
+        url: "http://localhost:9983/json-episode",
+        title: "JSON Episode",
+        date_published: "2025-10-27T10:00:00Z",
+        attachments: [
+          {
+            url: "http://localhost:9983/audio/json.m4a",
+            mime_type: "audio/x-m4a",
+            size_in_bytes: 999,
+            duration_in_seconds: 600,
+          },
+        ],
+      },
+    ],
+  });
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9983,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/podcast.xml") {
+          return new Response(podcast, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        if (url.pathname === "/podcast.json") {
+          return new Response(jsonFeed, {
+            headers: { "content-type": "application/feed+json" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  const mergeUrl = (format?: string) => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append("url", "http://localhost:9983/podcast.xml");
+    baseUrl.searchParams.append("url", "http://localhost:9983/podcast.json");
+    if (format) {
+      baseUrl.searchParams.append("format", format);
+    }
+    return baseUrl;
+  };
+
+  it("should carry enclosures and iTunes fields into RSS", async () => {
+    const server = startServer();
+
+    try {
+      const text = await (await GET(new NextRequest(mergeUrl()))).text();
+
+      expect(text).toContain(
+        'xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"',
+      );
+      expect(text).toContain(
+        '<enclosure url="http://localhost:9983/audio/12.mp3" length="12345678" type="audio/mpeg" />',
+      );
+      expect(text).toContain("<itunes:duration>1:02:03</itunes:duration>");
+      expect(text).toContain("<itunes:episode>12</itunes:episode>");
+      expect(text).toContain(
+        '<itunes:image href="http://localhost:9983/art/12.jpg" />',
+      );
+      expect(text).toContain("<itunes:explicit>false</itunes:explicit>");
+      // JSON Feed attachments become enclosures too
+      expect(text).toContain(
+        '<enclosure url="http://localhost:9983/audio/json.m4a" length="999" type="audio/x-m4a" />',
+      );
+      expect(text).toContain("<itunes:duration>600</itunes:duration>");
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should carry enclosures into JSON Feed attachments", async () => {
+    const server = startServer();
+
+    try {
+      const json = await (await GET(new NextRequest(mergeUrl("json")))).json();
+
+      expect(json.items[0].attachments).toEqual([
+        {
+          url: "http://localhost:9983/audio/12.mp3",
+          mime_type: "audio/mpeg",
+          size_in_bytes: 12345678,
+          duration_in_seconds: 3723,
+        },
+      ]);
+      expect(json.items[1].attachments).toEqual([
+        {
+          url: "http://localhost:9983/audio/json.m4a",
+          mime_type: "audio/x-m4a",
+          size_in_bytes: 999,
+          duration_in_seconds: 600,
+        },
+      ]);
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+describe("GET /api/merge - Item images", () => {
+  const mediaFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>Media Feed</title>
+    <item>
+      <title>Thumbnail</title>
+      <guid>thumbnail</guid>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+      <media:content url="http://localhost:9982/video.mp4" medium="video" />
+      <media:thumbnail url="http://localhost:9982/thumb.jpg" />
+    </item>
+    <item>
+      <title>Content</title>
+      <guid>content</guid>
+      <pubDate>Tue, 28 Oct 2025 09:00:00 GMT</pubDate>
+      <media:content url="http://localhost:9982/photo.jpg" medium="image" />
+    </item>
+    <item>
+      <title>Group</title>
+      <guid>group</guid>
+      <pubDate>Tue, 28 Oct 2025 08:00:00 GMT</pubDate>
+      <media:group>
+        <media:content url="http://localhost:9982/group.png" type="image/png" />
+      </media:group>
+    </item>
+    <item>
+      <title>Inline</title>
+      <guid>inline</guid>
+      <pubDate>Tue, 28 Oct 2025 07:00:00 GMT</pubDate>
+      <description><![CDATA[<p>Text <img src="http://localhost:9982/inline.gif?a=1&amp;b=2"></p>]]></description>
+    </item>
+  </channel>
+</rss>`;
+
+  const jsonFeed = JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: "JSON Images",
+    items: [
+      {
+        id: "json-image",
+        title: "JSON Image",
+        date_published: "2025-10-28T06:00:00Z",
+        image: "http://localhost:9982/json.jpg",
+        banner_image: "http://localhost:9982/banner.jpg",
+      },
+      {
+        id: "json-banner",
+        title: "JSON Banner",
+        date_published: "2025-10-28T05:00:00Z",
+        banner_image: "http://localhost:9982/banner.jpg",
+      },
+    ],
+  });
+
+  const pixelFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Pixel Feed</title>
+    <item>
+      <title>Only a pixel</title>
+      <guid>only-pixel</guid>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+      <description><![CDATA[<p>Text</p><img src="http://feeds.feedburner.com/~r/foo/~4/abc" height="1" width="1">]]></description>
+    </item>
+    <item>
+      <title>Pixel first</title>
+      <guid>pixel-first</guid>
+      <pubDate>Tue, 28 Oct 2025 09:00:00 GMT</pubDate>
+      <description><![CDATA[<img src="http://localhost:9982/beacon.gif" width="1" height="1"><p><img src="http://localhost:9982/real.jpg"></p>]]></description>
+    </item>
+  </channel>
+</rss>`;
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9982,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/pixels.xml") {
+          return new Response(pixelFeed, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        if (url.pathname === "/media.xml") {
+          return new Response(mediaFeed, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        if (url.pathname === "/images.json") {
+          return new Response(jsonFeed, {
+            headers: { "content-type": "application/feed+json" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  const mergeUrl = (format?: string) => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append("url", "http://localhost:9982/media.xml");
+    baseUrl.searchParams.append("url", "http://localhost:9982/images.json");
+    if (format) {
+      baseUrl.searchParams.append("format", format);
+    }
+    return baseUrl;
+  };
+
+  it("should pick one image per item for JSON Feed", async () => {
+    const server = startServer();
+
+    try {
+      const json = await (await GET(new NextRequest(mergeUrl("json")))).json();
+
+      expect(
+        json.items.map((item: { image?: string }) => item.image),
+      ).toEqual([
+        "http://localhost:9982/thumb.jpg",
+        "http://localhost:9982/photo.jpg",
+        "http://localhost:9982/group.png",
+        "http://localhost:9982/inline.gif?a=1&b=2",
+        "http://localhost:9982/json.jpg",
+        "http://localhost:9982/banner.jpg",
+      ]);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should emit the image as media:thumbnail in RSS", async () => {
+    const server = startServer();
+
+    try {
+      const text = await (await GET(new NextRequest(mergeUrl()))).text();
+
+      expect(text).toContain('xmlns:media="http://search.yahoo.com/mrss/"');
+      expect(text).toContain(
+        '<media:thumbnail url="http://localhost:9982/thumb.jpg" />',
+      );
+      expect(text).toContain(
+        '<media:thumbnail url="http://localhost:9982/inline.gif?a=1&amp;b=2" />',
+      );
+      expect(text.match(/<media:thumbnail /g)?.length).toBe(6);
+      expect(text).not.toContain("video.mp4");
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should never pick a tracking pixel as the image", async () => {
+    const server = startServer();
+
+    try {
+      // With and without the tracking-pixels transform
+      for (const transforms of [undefined, []]) {
+        const baseUrl = new URL("http://localhost:3000/api/merge");
+        baseUrl.searchParams.append(
+          "feeds",
+          LZString.compressToEncodedURIComponent(
+            JSON.stringify({
+              version: 2,
+              sources: [{ url: "http://localhost:9982/pixels.xml", transforms }],
+            }),
+          ),
+        );
+        baseUrl.searchParams.append("format", "json");
+        const json = await (await GET(new NextRequest(baseUrl))).json();
+
+        expect(
+          json.items.map((item: { image?: string }) => item.image),
+        ).toEqual([undefined, "http://localhost:9982/real.jpg"]);
+      }
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+describe("GET /api/merge - Sanitization", () => {
+  const hostile = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>Hostile Feed</title>
+    <item>
+      <title>Hostile</title>
+      <guid>hostile</guid>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+      <content:encoded><![CDATA[<p onclick="steal()" style="color:red">Hello <strong>world</strong></p><script>alert(1)</script><a href="javascript:alert(2)">bad link</a><a href="https://example.com/ok">good link</a><img src="https://example.com/a.png" onerror="alert(3)" alt="pic"><iframe src="https://evil.example"></iframe>]]></content:encoded>
+    </item>
+  </channel>
+</rss>`;
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9981,
+      fetch(req) {
+        if (new URL(req.url).pathname === "/hostile.xml") {
+          return new Response(hostile, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  const mergeUrl = (raw?: boolean) => {
+    const config = {
+      version: 2,
+      sources: [{ url: "http://localhost:9981/hostile.xml", raw }],
+    };
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append(
+      "feeds",
+      LZString.compressToEncodedURIComponent(JSON.stringify(config)),
+    );
+    baseUrl.searchParams.append("format", "json");
+    return baseUrl;
+  };
+
+  it("should strip scripts, handlers and javascript: URLs by default", async () => {
+    const server = startServer();
+
+    try {
+      const json = await (await GET(new NextRequest(mergeUrl()))).json();
+      const html = json.items[0].content_html;
+
+      expect(html).toContain("<p>Hello <strong>world</strong></p>");
+      expect(html).toContain(
+        '<a href="https://example.com/ok" rel="noopener noreferrer">good link</a>',
+      );
+      expect(html).toContain('<img src="https://example.com/a.png" alt="pic" />');
+      expect(html).not.toContain("script");
+      expect(html).not.toContain("alert");
+      expect(html).not.toContain("onclick");
+      expect(html).not.toContain("style=");
+      expect(html).not.toContain("iframe");
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should keep raw content for trusted sources", async () => {
+    const server = startServer();
+
+    try {
+      const json = await (await GET(new NextRequest(mergeUrl(true)))).json();
+
+      expect(json.items[0].content_html).toContain("<script>alert(1)</script>");
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should reject a non-boolean raw flag", async () => {
+    const config = {
+      version: 2,
+      sources: [{ url: "http://localhost:9981/hostile.xml", raw: "yes" }],
+    };
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append(
+      "feeds",
+      LZString.compressToEncodedURIComponent(JSON.stringify(config)),
+    );
+
+    const response = await GET(new NextRequest(baseUrl));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain("invalid raw flag");
+  });
+});
+
+describe("GET /api/merge - Relative URLs", () => {
+  const rssFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>Relative Feed</title>
+    <link>https://blog.example.com/</link>
+    <item>
+      <title>With link</title>
+      <link>/posts/2025/hello/</link>
+      <guid>with-link</guid>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+      <content:encoded><![CDATA[<p><a href="../other/">Other</a> <a href="#notes">Notes</a> <a href="https://elsewhere.example/x">Abs</a></p><img src="cover.jpg" srcset="cover-1x.jpg 1x, /img/cover-2x.jpg 2x">]]></content:encoded>
+    </item>
+    <item>
+      <title>Without link</title>
+      <guid>without-link</guid>
+      <pubDate>Tue, 28 Oct 2025 09:00:00 GMT</pubDate>
+      <content:encoded><![CDATA[<img src='/img/plain.png'>]]></content:encoded>
+    </item>
+  </channel>
+</rss>`;
+
+  const atomFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:base="https://atom.example.org/blog/">
+  <title>Atom Base</title>
+  <id>urn:atom-base</id>
+  <updated>2025-10-28T08:00:00Z</updated>
+  <entry>
+    <title>Atom Entry</title>
+    <id>urn:atom-base:1</id>
+    <updated>2025-10-28T08:00:00Z</updated>
+    <content type="html">&lt;img src="images/a.png"&gt;</content>
+  </entry>
+</feed>`;
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9980,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/relative.xml") {
+          return new Response(rssFeed, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        if (url.pathname === "/atom.xml") {
+          return new Response(atomFeed, {
+            headers: { "content-type": "application/atom+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  it("should resolve content URLs against the item link, feed link or xml:base", async () => {
+    const server = startServer();
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9980/relative.xml");
+      baseUrl.searchParams.append("url", "http://localhost:9980/atom.xml");
+      baseUrl.searchParams.append("format", "json");
+
+      const json = await (await GET(new NextRequest(baseUrl))).json();
+      const [withLink, withoutLink, atomEntry] = json.items;
+
+      expect(withLink.url).toBe("https://blog.example.com/posts/2025/hello/");
+      expect(withLink.content_html).toContain(
+        'href="https://blog.example.com/posts/2025/other/"',
+      );
+      expect(withLink.content_html).toContain(
+        'href="https://blog.example.com/posts/2025/hello/#notes"',
+      );
+      expect(withLink.content_html).toContain(
+        'href="https://elsewhere.example/x"',
+      );
+      expect(withLink.content_html).toContain(
+        'src="https://blog.example.com/posts/2025/hello/cover.jpg"',
+      );
+      expect(withLink.content_html).toContain(
+        'srcset="https://blog.example.com/posts/2025/hello/cover-1x.jpg 1x, https://blog.example.com/img/cover-2x.jpg 2x"',
+      );
+      expect(withLink.image).toBe(
+        "https://blog.example.com/posts/2025/hello/cover.jpg",
+      );
+      expect(withoutLink.content_html).toContain(
+        'src="https://blog.example.com/img/plain.png"',
+      );
+      expect(atomEntry.content_html).toContain(
+        'src="https://atom.example.org/blog/images/a.png"',
+      );
+    } finally {
+      server.stop();
+    }
+  });
+});
+
+describe("GET /api/merge - Dates", () => {
+  const looseFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Loose Dates</title>
+    <item>
+      <title>Abbreviated zone</title>
+      <guid>abbreviated</guid>
+      <pubDate>Mon, 27 Oct 2025 10:00:00 EST</pubDate>
+    </item>
+    <item>
+      <title>ISO in pubDate</title>
+      <guid>iso</guid>
+      <pubDate>2025-10-28T10:00:00+02:00</pubDate>
+    </item>
+    <item>
+      <title>Unparseable</title>
+      <guid>unparseable</guid>
+      <pubDate>last Tuesday</pubDate>
+    </item>
+    <item>
+      <title>Missing</title>
+      <guid>missing</guid>
+    </item>
+  </channel>
+</rss>`;
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9979,
+      fetch(req) {
+        if (new URL(req.url).pathname === "/loose.xml") {
+          return new Response(looseFeed, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  const mergeUrl = (params: Record<string, string> = {}) => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append("url", "http://localhost:9979/loose.xml");
+    for (const [key, value] of Object.entries(params)) {
+      baseUrl.searchParams.append(key, value);
+    }
+    return baseUrl;
+  };
+
+  it("should emit RFC 822 dates in RSS with undated items last", async () => {
+    const server = startServer();
+
+    try {
+      const text = await (await GET(new NextRequest(mergeUrl()))).text();
+
+      const pubDates = [...text.matchAll(/<pubDate>([^<]*)<\/pubDate>/g)].map(
+        ([, date]) => date,
+      );
+      expect(pubDates).toEqual([
+        "Tue, 28 Oct 2025 08:00:00 GMT",
+        "Mon, 27 Oct 2025 15:00:00 GMT",
+      ]);
+      const guids = [...text.matchAll(/<guid>([^<]*)<\/guid>/g)].map(
+        ([, guid]) => guid,
+      );
+      expect(guids).toEqual(["iso", "abbreviated", "unparseable", "missing"]);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should emit RFC 3339 dates in JSON Feed and Atom", async () => {
+    const server = startServer();
+
+    try {
+      const json = await (
+        await GET(new NextRequest(mergeUrl({ format: "json" })))
+      ).json();
+      expect(
+        json.items.map(
+          (item: { date_published?: string }) => item.date_published,
+        ),
+      ).toEqual([
+        "2025-10-28T08:00:00.000Z",
+        "2025-10-27T15:00:00.000Z",
+        undefined,
+        undefined,
+      ]);
+
+      const atom = await (
+        await GET(new NextRequest(mergeUrl({ format: "atom" })))
+      ).text();
+      expect(atom).toContain("<published>2025-10-27T15:00:00.000Z</published>");
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should drop undated items or date them at fetch time", async () => {
+    const server = startServer();
+
+    try {
+      const dropped = await (
+        await GET(new NextRequest(mergeUrl({ format: "json", undated: "drop" })))
+      ).json();
+      expect(dropped.items.map((item: { id: string }) => item.id)).toEqual([
+        "iso",
+        "abbreviated",
+      ]);
+
+      const before = Date.now();
+      const fetchTime = await (
+        await GET(
+          new NextRequest(mergeUrl({ format: "json", undated: "fetch_time" })),
+        )
+      ).json();
+      expect(
+        fetchTime.items.slice(0, 2).map((item: { id: string }) => item.id),
+      ).toEqual(["unparseable", "missing"]);
+      expect(
+        new Date(fetchTime.items[0].date_published).getTime(),
+      ).toBeGreaterThanOrEqual(before - 1000);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should reject an unknown undated policy", async () => {
+    const response = await GET(new NextRequest(mergeUrl({ undated: "top" })));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain("drop, bottom, fetch_time");
+  });
+});
+
+describe("GET /api/merge - Error reporting", () => {
+  const okFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Working Feed</title>
+    <item>
+      <title>Working item</title>
+      <guid>working</guid>
+      <pubDate>Tue, 28 Oct 2025 10:00:00 GMT</pubDate>
+    </item>
+  </channel>
+</rss>`;
+
+  let brokenStatus = 404;
+  const startServer = () =>
+    Bun.serve({
+      port: 9978,
+      fetch(req) {
+        const url = new URL(req.url);
+        if (url.pathname === "/ok.xml") {
+          return new Response(okFeed, {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        if (url.pathname === "/broken.xml") {
+          return new Response("Gone", { status: brokenStatus });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  const mergeUrl = (params: Record<string, string> = {}) => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append("url", "http://localhost:9978/ok.xml");
+    baseUrl.searchParams.append("url", "http://localhost:9978/broken.xml");
+    for (const [key, value] of Object.entries(params)) {
+      baseUrl.searchParams.append(key, value);
+    }
+    return baseUrl;
+  };
+
+  it("should keep inline error items stable until the error changes", async () => {
+    const server = startServer();
+    brokenStatus = 404;
+
+    try {
+      const first = await GET(new NextRequest(mergeUrl({ format: "json" })));
+      const firstJson = await first.json();
+      await Bun.sleep(20);
+      const second = await GET(new NextRequest(mergeUrl({ format: "json" })));
+      const secondJson = await second.json();
+
+      expect(firstJson.items[0].title).toContain("Failed to load feed");
+      expect(secondJson.items[0].id).toBe(firstJson.items[0].id);
+      expect(secondJson.items[0].date_published).toBe(
+        firstJson.items[0].date_published,
+      );
+      expect(second.headers.get("ETag")).toBe(first.headers.get("ETag"));
+      expect(
+        new URLSearchParams(first.headers.get("X-Failed-Feeds") || "").get(
+          "http://localhost:9978/broken.xml",
+        ),
+      ).toBe("Status code 404");
+
+      brokenStatus = 410;
+      const changed = await (
+        await GET(new NextRequest(mergeUrl({ format: "json" })))
+      ).json();
+      expect(changed.items[0].id).not.toBe(firstJson.items[0].id);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should report errors in headers and a diagnostics block only", async () => {
+    const server = startServer();
+    brokenStatus = 404;
+
+    try {
+      const response = await GET(
+        new NextRequest(mergeUrl({ errors: "headers" })),
+      );
+      const text = await response.text();
+
+      expect(text).not.toContain("Failed to load feed");
+      expect(text).not.toContain("failed to load");
+      expect(text).toContain(
+        'xmlns:rssrssrss="https://rssrssrssrss.com/ns/diagnostics"',
+      );
+      expect(text).toMatch(
+        /<rssrssrss:error url="http:\/\/localhost:9978\/broken.xml" guid="error-[0-9a-f]{32}" since="[^"]+">Status code 404<\/rssrssrss:error>/,
+      );
+      expect(response.headers.get("X-Failed-Feeds")).toContain(
+        "Status+code+404",
+      );
+
+      const json = await (
+        await GET(
+          new NextRequest(mergeUrl({ errors: "headers", format: "json" })),
+        )
+      ).json();
+      expect(json.items).toHaveLength(1);
+      expect(json._rssrssrss.errors).toEqual([
+        expect.objectContaining({
+          url: "http://localhost:9978/broken.xml",
+          error: "Status code 404",
+        }),
+      ]);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should hide errors entirely in silent mode", async () => {
+    const server = startServer();
+    brokenStatus = 404;
+
+    try {
+      const response = await GET(new NextRequest(mergeUrl({ errors: "silent" })));
+      const text = await response.text();
+
+      expect(text).not.toContain("Failed to load feed");
+      expect(text).not.toContain("failed to load");
+      expect(text).not.toContain("rssrssrss:error");
+      expect(response.headers.get("X-Failed-Feeds")).toBeNull();
+      expect(text).toContain("<title>Working item</title>");
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should reject an unknown error reporting mode", async () => {
+    const response = await GET(new NextRequest(mergeUrl({ errors: "loud" })));
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain("inline, headers, silent");
+  });
+});
+
+describe("GET /api/merge - Diagnostics", () => {
+  const hoursAgo = (hours: number) =>
+    new Date(Date.now() - hours * 60 * 60 * 1000).toUTCString();
+
+  const freshFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Fresh Feed</title>
+    <item><title>Fresh 1</title><guid>fresh-1</guid><pubDate>${hoursAgo(1)}</pubDate></item>
+    <item><title>Fresh 2</title><guid>fresh-2</guid><pubDate>${hoursAgo(2)}</pubDate></item>
+    <item><title>Fresh 3</title><guid>fresh-3</guid><pubDate>${hoursAgo(3)}</pubDate></item>
+    <item><title>Sponsored post</title><guid>fresh-4</guid><pubDate>${hoursAgo(4)}</pubDate></item>
+    <item><title>Undated</title><guid>fresh-5</guid></item>
+  </channel>
+</rss>`;
+
+  const staleFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Stale Feed</title>
+    <item><title>Old 1</title><guid>old-1</guid><pubDate>Wed, 01 Jan 2020 10:00:00 GMT</pubDate></item>
+    <item><title>Old 2</title><guid>old-2</guid><pubDate>Tue, 31 Dec 2019 10:00:00 GMT</pubDate></item>
+  </channel>
+</rss>`;
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9977,
+      fetch(req) {
+        const url = new URL(req.url);
+        const feeds: Record<string, string> = {
+          "/fresh.xml": freshFeed,
+          "/stale.xml": staleFeed,
+          "/undated.xml": `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Undated Feed</title>
+    <item><title>No date</title><guid>undated-1</guid></item>
+  </channel>
+</rss>`,
+        };
+        if (feeds[url.pathname]) {
+          return new Response(feeds[url.pathname], {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  const mergeUrl = (params: Record<string, string>) => {
+    const config = {
+      version: 2,
+      filters: [{ action: "exclude", pattern: "sponsored" }],
+      sources: [
+        { url: "http://localhost:9977/fresh.xml" },
+        { url: "http://localhost:9977/stale.xml" },
+        { url: "http://localhost:9977/missing.xml" },
+      ],
+    };
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append(
+      "feeds",
+      LZString.compressToEncodedURIComponent(JSON.stringify(config)),
+    );
+    for (const [key, value] of Object.entries(params)) {
+      baseUrl.searchParams.append(key, value);
+    }
+    return baseUrl;
+  };
+
+  it("should report per-source results, drops and staleness", async () => {
+    const server = startServer();
+
+    try {
+      const response = await GET(
+        new NextRequest(
+          mergeUrl({
+            format: "diagnostics",
+            undated: "drop",
+            per_source: "2",
+            limit: "3",
+            errors: "headers",
+          }),
+        ),
+      );
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Cache-Control")).toBe("no-store");
+      const json = await response.json();
+
+      expect(json.item_count).toBe(3);
+      expect(json.stale_days).toBe(30);
+      const [fresh, stale, missing] = json.sources;
+
+      expect(fresh).toMatchObject({
+        url: "http://localhost:9977/fresh.xml",
+        resolved_url: "http://localhost:9977/fresh.xml",
+        format: "rss",
+        status: 200,
+        item_count: 5,
+        included_count: 2,
+        stale: false,
+        error: null,
+        dropped: {
+          undated: 1,
+          filtered: 1,
+          outside_window: 0,
+          source_limit: 1,
+          duplicate: 0,
+          total_limit: 0,
+        },
+      });
+      expect(typeof fresh.latency_ms).toBe("number");
+
+      expect(stale).toMatchObject({
+        item_count: 2,
+        included_count: 1,
+        newest_item: "2020-01-01T10:00:00.000Z",
+        stale: true,
+        dropped: { source_limit: 0, total_limit: 1 },
+      });
+
+      expect(missing).toMatchObject({
+        url: "http://localhost:9977/missing.xml",
+        resolved_url: "http://localhost:9977/missing.xml",
+        format: null,
+        status: 404,
+        error: "Status code 404",
+      });
+      expect(missing.error_guid).toMatch(/^error-[0-9a-f]{32}$/);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should not date a feed by its fetch time", async () => {
+    const server = startServer();
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9977/undated.xml");
+      baseUrl.searchParams.append("format", "diagnostics");
+      baseUrl.searchParams.append("undated", "fetch_time");
+      const json = await (await GET(new NextRequest(baseUrl))).json();
+
+      expect(json.sources[0]).toMatchObject({
+        included_count: 1,
+        newest_item: null,
+        stale: true,
+      });
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should reject an invalid stale_days", async () => {
+    const response = await GET(
+      new NextRequest(mergeUrl({ format: "diagnostics", stale_days: "0" })),
+    );
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("GET /api/merge - Pagination", () => {
+  const post = (day: number) =>
+    `    <item><title>Post ${day}</title><guid>post-${day}</guid><pubDate>${new Date(
+      Date.UTC(2025, 9, day),
+    ).toUTCString()}</pubDate></item>`;
+
+  let days = [1, 2, 3, 4, 5];
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9975,
+      fetch() {
+        return new Response(
+          `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Paged Feed</title>
+${days.map(post).join("\n")}
+  </channel>
+</rss>`,
+          { headers: { "content-type": "application/rss+xml" } },
+        );
+      },
+    });
+
+  const mergeUrl = (params: Record<string, string>) => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append("url", "http://localhost:9975/feed.xml");
+    for (const [key, value] of Object.entries(params)) {
+      baseUrl.searchParams.append(key, value);
+    }
+    return baseUrl;
+  };
+
+  const titles = (json: { items: { title: string }[] }) =>
+    json.items.map((item) => item.title);
+
+  it("should page through the merged feed with next_url", async () => {
+    days = [1, 2, 3, 4, 5];
+    const server = startServer();
+
+    try {
+      const first = await GET(
+        new NextRequest(mergeUrl({ format: "json", limit: "2" })),
+      );
+      const firstJson = await first.json();
+      expect(titles(firstJson)).toEqual(["Post 5", "Post 4"]);
+      expect(firstJson.next_url).toMatch(/[?&]cursor=\d+\.[0-9a-f]{16}/);
+
+      const second = await GET(new NextRequest(firstJson.next_url));
+      const secondJson = await second.json();
+      expect(titles(secondJson)).toEqual(["Post 3", "Post 2"]);
+
+      const third = await GET(new NextRequest(secondJson.next_url));
+      const thirdJson = await third.json();
+      expect(titles(thirdJson)).toEqual(["Post 1"]);
+      expect(thirdJson.next_url).toBeUndefined();
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should keep cursors stable when new items arrive", async () => {
+    days = [1, 2, 3, 4, 5];
+    const server = startServer();
+
+    try {
+      const first = await GET(
+        new NextRequest(mergeUrl({ format: "json", limit: "2" })),
+      );
+      const { next_url } = await first.json();
+
+      days = [1, 2, 3, 4, 5, 6, 7];
+      const second = await GET(new NextRequest(next_url));
+      expect(titles(await second.json())).toEqual(["Post 3", "Post 2"]);
+
+      // Once the cursor's item has left the source, paging resumes by date
+      days = [1, 2, 3, 5, 6, 7];
+      const third = await GET(new NextRequest(next_url));
+      expect(titles(await third.json())).toEqual(["Post 3", "Post 2"]);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should link the next page in RSS and Atom", async () => {
+    days = [1, 2, 3];
+    const server = startServer();
+
+    try {
+      const rss = await (
+        await GET(new NextRequest(mergeUrl({ limit: "2" })))
+      ).text();
+      expect(rss).toContain('xmlns:atom="http://www.w3.org/2005/Atom"');
+      expect(rss).toMatch(
+        /<atom:link rel="next" href="http:\/\/localhost:3000\/api\/merge\?[^"]*cursor=/,
+      );
+
+      const atom = await (
+        await GET(new NextRequest(mergeUrl({ format: "atom", limit: "2" })))
+      ).text();
+      expect(atom).toMatch(/<link rel="next" href="[^"]*cursor=/);
+
+      const lastPage = await (
+        await GET(new NextRequest(mergeUrl({ limit: "3" })))
+      ).text();
+      expect(lastPage).not.toContain('rel="next"');
+      expect(lastPage).not.toContain("xmlns:atom");
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should page interleaved orderings by position in each source", async () => {
+    const item = (name: string, day: number) =>
+      `    <item><title>${name}</title><guid>${name}</guid><pubDate>${new Date(
+        Date.UTC(2025, 9, day),
+      ).toUTCString()}</pubDate></item>`;
+    let aItems = ["A1", "A2", "A3", "A4"];
+    const server = Bun.serve({
+      port: 9970,
+      fetch(req) {
+        const names =
+          new URL(req.url).pathname === "/a.xml"
+            ? aItems
+            : ["B1", "B2", "B3", "B4"];
+        // Lower numbers are newer
+        return new Response(
+          `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Interleaved</title>
+${names.map((name) => item(name, 20 - Number(name.slice(1)))).join("\n")}
+  </channel>
+</rss>`,
+          { headers: { "content-type": "application/rss+xml" } },
+        );
+      },
+    });
+
+    try {
+      const baseUrl = new URL("http://localhost:3000/api/merge");
+      baseUrl.searchParams.append("url", "http://localhost:9970/a.xml");
+      baseUrl.searchParams.append("url", "http://localhost:9970/b.xml");
+      baseUrl.searchParams.append("format", "json");
+      baseUrl.searchParams.append("order", "round_robin");
+      baseUrl.searchParams.append("limit", "3");
+
+      const first = await (await GET(new NextRequest(baseUrl))).json();
+      expect(titles(first)).toEqual(["A1", "B1", "A2"]);
+      expect(first.next_url).toMatch(/[?&]cursor=s\./);
+
+      // A new item in one source must not skip or repeat items of the other
+      aItems = ["A0", "A1", "A2", "A3", "A4"];
+      const second = await (await GET(new NextRequest(first.next_url))).json();
+      expect(titles(second)).toEqual(["A3", "B2", "A4"]);
+
+      const third = await (await GET(new NextRequest(second.next_url))).json();
+      expect(titles(third)).toEqual(["B3", "B4"]);
+      expect(third.next_url).toBeUndefined();
+
+      // A date cursor doesn't fit an interleaved ordering
+      const dateCursor = new URL(baseUrl);
+      dateCursor.searchParams.set("cursor", `1760000000000.${"0".repeat(16)}`);
+      expect((await GET(new NextRequest(dateCursor))).status).toBe(400);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should reject an invalid cursor", async () => {
+    const response = await GET(
+      new NextRequest(mergeUrl({ cursor: "not-a-cursor" })),
+    );
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.cursor).toBe("not-a-cursor");
+  });
+});
+
+describe("GET /api/merge - Ordering", () => {
+  const at = (day: number, hour = 12) =>
+    new Date(Date.UTC(2025, 9, day, hour)).toUTCString();
+
+  // A source posting daily, and a blog posting weekly
+  const dailyFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Daily</title>
+${[30, 29, 28, 27, 26]
+  .map(
+    (day) =>
+      `    <item><title>Daily ${day}</title><guid>daily-${day}</guid><pubDate>${at(day)}</pubDate></item>`,
+  )
+  .join("\n")}
+  </channel>
+</rss>`;
+
+  const weeklyFeed = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Weekly</title>
+    <item><title>Weekly 24</title><guid>weekly-24</guid><pubDate>${at(24)}</pubDate></item>
+    <item><title>Weekly 17</title><guid>weekly-17</guid><pubDate>${at(17)}</pubDate></item>
+  </channel>
+</rss>`;
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9974,
+      fetch(req) {
+        const url = new URL(req.url);
+        const feeds: Record<string, string> = {
+          "/daily.xml": dailyFeed,
+          "/weekly.xml": weeklyFeed,
+        };
+        if (feeds[url.pathname]) {
+          return new Response(feeds[url.pathname], {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  const mergeTitles = async (
+    order: string | null,
+    weights = [1, 1],
+    paths = ["/daily.xml", "/weekly.xml"],
+  ) => {
+    const config = {
+      version: 2,
+      sources: paths.map((path, index) => ({
+        url: `http://localhost:9974${path}`,
+        weight: weights[index],
+      })),
+    };
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append(
+      "feeds",
+      LZString.compressToEncodedURIComponent(JSON.stringify(config)),
+    );
+    baseUrl.searchParams.append("format", "json");
+    if (order) {
+      baseUrl.searchParams.append("order", order);
+    }
+    const response = await GET(new NextRequest(baseUrl));
+    const json = await response.json();
+    return json.items.map((item: { title: string }) => item.title);
+  };
+
+  it("should sort by date by default", async () => {
+    const server = startServer();
+
+    try {
+      const expected = [
+        "Daily 30",
+        "Daily 29",
+        "Daily 28",
+        "Daily 27",
+        "Daily 26",
+        "Weekly 24",
+        "Weekly 17",
+      ];
+      expect(await mergeTitles(null)).toEqual(expected);
+      expect(await mergeTitles("date")).toEqual(expected);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should take turns between sources with round_robin", async () => {
+    const server = startServer();
+
+    try {
+      // Weights are ignored
+      expect(await mergeTitles("round_robin", [3, 1])).toEqual([
+        "Daily 30",
+        "Weekly 24",
+        "Daily 29",
+        "Weekly 17",
+        "Daily 28",
+        "Daily 27",
+        "Daily 26",
+      ]);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should interleave in proportion to source weights", async () => {
+    const server = startServer();
+
+    try {
+      expect(await mergeTitles("weighted", [2, 1])).toEqual([
+        "Daily 30",
+        "Weekly 24",
+        "Daily 29",
+        "Daily 28",
+        "Weekly 17",
+        "Daily 27",
+        "Daily 26",
+      ]);
+      // A heavier weekly source comes first
+      expect(await mergeTitles("weighted", [1, 3])).toEqual([
+        "Weekly 24",
+        "Daily 30",
+        "Weekly 17",
+        "Daily 29",
+        "Daily 28",
+        "Daily 27",
+        "Daily 26",
+      ]);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should list each source in config order with grouped", async () => {
+    const server = startServer();
+
+    try {
+      expect(
+        await mergeTitles("grouped", [1, 1], ["/weekly.xml", "/daily.xml"]),
+      ).toEqual([
+        "Weekly 24",
+        "Weekly 17",
+        "Daily 30",
+        "Daily 29",
+        "Daily 28",
+        "Daily 27",
+        "Daily 26",
+      ]);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should reject an unknown ordering", async () => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append("url", "http://localhost:9974/daily.xml");
+    baseUrl.searchParams.append("order", "random");
+
+    const response = await GET(new NextRequest(baseUrl));
+    const json = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(json.order).toBe("random");
+  });
+});
+
+describe("GET /api/merge - Digests", () => {
+  const feed = (title: string, items: [string, string][]) => `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>${title}</title>
+${items
+  .map(
+    ([slug, date]) =>
+      `    <item><title>${title} ${slug}</title><link>http://localhost:9973/${slug}</link><guid>${slug}</guid><pubDate>${date}</pubDate></item>`,
+  )
+  .join("\n")}
+  </channel>
+</rss>`;
+
+  const startServer = () =>
+    Bun.serve({
+      port: 9973,
+      fetch(req) {
+        const url = new URL(req.url);
+        const feeds: Record<string, string> = {
+          "/news.xml": feed("News", [
+            ["late", "Mon, 20 Oct 2025 23:30:00 GMT"],
+            ["noon", "Mon, 20 Oct 2025 12:00:00 GMT"],
+          ]),
+          "/blog.xml": feed("Blog", [["sunday", "Sun, 19 Oct 2025 08:00:00 GMT"]]),
+        };
+        if (feeds[url.pathname]) {
+          return new Response(feeds[url.pathname], {
+            headers: { "content-type": "application/rss+xml" },
+          });
+        }
+        return new Response("Not found", { status: 404 });
+      },
+    });
+
+  const mergeUrl = (params: Record<string, string>) => {
+    const baseUrl = new URL("http://localhost:3000/api/merge");
+    baseUrl.searchParams.append("url", "http://localhost:9973/news.xml");
+    baseUrl.searchParams.append("url", "http://localhost:9973/blog.xml");
+    baseUrl.searchParams.append("format", "json");
+    for (const [key, value] of Object.entries(params)) {
+      baseUrl.searchParams.append(key, value);
+    }
+    return baseUrl;
+  };
+
+  it("should merge each day into a single item", async () => {
+    const server = startServer();
+
+    try {
+      const response = await GET(new NextRequest(mergeUrl({ digest: "day" })));
+      const json = await response.json();
+
+      expect(json.items.map((item: { title: string }) => item.title)).toEqual([
+        "Daily digest for 2025-10-20",
+        "Daily digest for 2025-10-19",
+      ]);
+      expect(json.items[0].content_html).toBe(
+        '<ul><li><a href="http://localhost:9973/late">News late</a> (News)</li><li><a href="http://localhost:9973/noon">News noon</a> (News)</li></ul>',
+      );
+      expect(json.items[0].date_published).toBe("2025-10-20T23:30:00.000Z");
+
+      // The same bucket keeps its GUID on the next poll
+      const again = await (
+        await GET(new NextRequest(mergeUrl({ digest: "day" })))
+      ).json();
+      expect(again.items.map((item: { id: string }) => item.id)).toEqual(
+        json.items.map((item: { id: string }) => item.id),
+      );
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should bucket in the requested timezone", async () => {
+    const server = startServer();
+
+    try {
+      const daily = await (
+        await GET(
+          new NextRequest(mergeUrl({ digest: "day", tz: "Europe/Berlin" })),
+        )
+      ).json();
+      expect(
+        daily.items.map((item: { title: string }) => item.title),
+      ).toEqual([
+        "Daily digest for 2025-10-21",
+        "Daily digest for 2025-10-20",
+        "Daily digest for 2025-10-19",
+      ]);
+
+      const weekly = await (
+        await GET(new NextRequest(mergeUrl({ digest: "week" })))
+      ).json();
+      expect(
+        weekly.items.map((item: { title: string }) => item.title),
+      ).toEqual(["Weekly digest for 2025-W43", "Weekly digest for 2025-W42"]);
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should count the items inside digests in diagnostics", async () => {
+    const server = startServer();
+
+    try {
+      // Only the newest digest is served, holding both News items
+      const url = mergeUrl({ digest: "day", limit: "1" });
+      url.searchParams.set("format", "diagnostics");
+      const json = await (await GET(new NextRequest(url))).json();
+      const [news, blog] = json.sources;
+
+      expect(json.item_count).toBe(1);
+      expect(news).toMatchObject({
+        included_count: 2,
+        dropped: { total_limit: 0 },
+      });
+      expect(blog).toMatchObject({
+        included_count: 0,
+        dropped: { total_limit: 1 },
+      });
+    } finally {
+      server.stop();
+    }
+  });
+
+  it("should reject unknown periods and timezones", async () => {
+    const period = await GET(new NextRequest(mergeUrl({ digest: "month" })));
+    expect(period.status).toBe(400);
+    expect((await period.json()).digest).toBe("month");
+
+    const timezone = await GET(
+      new NextRequest(mergeUrl({ digest: "day", tz: "Nowhere/Special" })),
+    );
+    expect(timezone.status).toBe(400);
+    expect((await timezone.json()).tz).toBe("Nowhere/Special");
+  });
+});
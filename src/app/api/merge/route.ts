@@ -1,17 +1,78 @@
-import LZString from "lz-string";
+import { createHash } from "node:crypto";
+import { BundleNotFoundError, loadFeedConfig } from "@/lib/bundles";
+import { getUpstreamCache, getUpstreamCacheTTL } from "@/lib/cache";
+import {
+  enabledSources,
+  type FeedConfig,
+  FeedConfigError,
+  type FeedSource,
+} from "@/lib/config";
 import { encodeContent } from "@/lib/encoding";
+import {
+  computeETag,
+  isNotModified,
+  newestItemDate,
+} from "@/lib/conditional";
+import {
+  compareItemDates,
+  itemDate,
+  normalizeItemDates,
+  parseUndatedPolicy,
+  toRFC3339,
+  toRFC822,
+  UNDATED_POLICIES,
+} from "@/lib/dates";
+import { dedupeItems, parseDedupeStrategies } from "@/lib/dedupe";
+import {
+  DIGEST_PERIODS,
+  type DigestOptions,
+  digestItems,
+  itemsInDigests,
+  parseDigestPeriod,
+  parseTimeZone,
+} from "@/lib/digest";
+import {
+  countBySource,
+  type DroppedItems,
+  emptyDroppedItems,
+  isStale,
+  parseStaleDays,
+  type SourceDiagnostics,
+} from "@/lib/diagnostics";
+import {
+  DIAGNOSTICS_NAMESPACE,
+  describeFailure,
+  ERROR_MODES,
+  parseErrorMode,
+} from "@/lib/errors";
+import {
+  UpstreamStatusError,
+  fetchFeed,
+  getFetchLimits,
+} from "@/lib/fetcher";
+import { filterItems } from "@/lib/filters";
+import {
+  describeMergeLimits,
+  type MergeLimits,
+  parseMergeLimits,
+} from "@/lib/limits";
+import { MEDIA_NAMESPACE, firstImageInContent } from "@/lib/media";
+import { ORDERINGS, orderItems, parseOrdering } from "@/lib/ordering";
+import {
+  ATOM_NAMESPACE,
+  cursorAfterPage,
+  itemsAfterCursor,
+  nextPageUrl,
+  type PageCursor,
+  parsePageCursor,
+  unservedItems,
+} from "@/lib/pagination";
+import { enclosuresToJSONFeed, ITUNES_NAMESPACE } from "@/lib/podcast";
+import { sanitizeContent } from "@/lib/sanitize";
+import { applyTransforms, transformsForSource } from "@/lib/transforms";
+import { resolveItemUrls } from "@/lib/urls";
 import { type NextRequest, NextResponse } from "next/server";
-import Parser from "rss-parser";
-import { CustomFeed, CustomItem, JSONFeed } from "@/lib/types";
-
-const parser = new Parser({
-  customFields: {
-    item: [
-      ["content:encoded", "content"],
-      ["dc:creator", "creator"],
-    ],
-  },
-});
+import { CustomFeed, CustomItem, FeedFailure, JSONFeed } from "@/lib/types";
 
 const GENERATOR = "rssrssrssrss";
 const FEED_TITLE = "Merged Feed";
@@ -30,68 +91,6 @@ function wrapCDATA(content: string): string {
   return `<![CDATA[${content}]]>`;
 }
 
-// Helper function to extract content after <div class="md"><p> marker
-function extractContentAfterMarker(content: string): string {
-  const marker = '<div class="md"><p>';
-  const index = content.indexOf(marker);
-  if (index !== -1) {
-    return content.substring(index + marker.length);
-  }
-  return content;
-}
-
-// Helper functions for JSON Feed detection and parsing
-async function isJSONFeed(url: string): Promise<boolean> {
-  try {
-    const response = await fetch(url, {
-      headers: { Accept: "application/json, application/feed+json, */*" },
-    });
-    const contentType = response.headers.get("content-type") || "";
-
-    if (
-      contentType.includes("application/feed+json") ||
-      contentType.includes("application/json")
-    ) {
-      const text = await response.text();
-      const data = JSON.parse(text);
-      return data.version && data.version.includes("jsonfeed.org");
-    }
-
-    return false;
-  } catch {
-    return false;
-  }
-}
-
-async function parseJSONFeed(url: string): Promise<CustomFeed> {
-  const response = await fetch(url, {
-    headers: { Accept: "application/json, application/feed+json, */*" },
-  });
-  const jsonFeed: JSONFeed = await response.json();
-
-  // Convert JSON Feed items to CustomItem format
-  const items: CustomItem[] = jsonFeed.items.map((item) => ({
-    title: item.title,
-    link: item.url || item.external_url,
-    pubDate: item.date_published,
-    content: item.content_html ? extractContentAfterMarker(item.content_html) : undefined,
-    contentSnippet: item.content_text || item.summary,
-    creator: item.author?.name,
-    isoDate: item.date_published,
-    guid: item.id,
-    categories: item.tags,
-    sourceFeedTitle: jsonFeed.title,
-    sourceFeedUrl: url,
-  }));
-
-  return {
-    title: jsonFeed.title,
-    description: jsonFeed.description,
-    link: jsonFeed.home_page_url,
-    items,
-  };
-}
-
 // Helper function to generate JSON Feed output
 function generateJSONFeed(mergedFeed: CustomFeed, requestUrl: string): string {
   const jsonFeed: JSONFeed = {
@@ -100,174 +99,262 @@ function generateJSONFeed(mergedFeed: CustomFeed, requestUrl: string): string {
     description: mergedFeed.description,
     home_page_url: mergedFeed.link,
     feed_url: requestUrl,
+    next_url: mergedFeed.nextUrl,
     items: mergedFeed.items.map((item) => ({
       id: item.guid || item.link || crypto.randomUUID(),
       url: item.link,
       title: item.title,
       content_html: item.content,
       content_text: item.contentSnippet,
-      date_published: item.isoDate || item.pubDate,
+      image: item.image,
+      date_published: toAtomDate(item),
       author: item.creator ? { name: item.creator } : undefined,
       tags: item.categories,
+      attachments: item.enclosures
+        ? enclosuresToJSONFeed(item.enclosures)
+        : undefined,
+      // Sources that also published this item, as a JSON Feed extension
+      ...(item.duplicateSources
+        ? {
+            _rssrssrss: {
+              duplicate_sources: item.duplicateSources,
+            },
+          }
+        : {}),
     })),
   };
 
+  // Failed sources, as a JSON Feed extension
+  if (mergedFeed.failures?.length) {
+    jsonFeed._rssrssrss = { errors: mergedFeed.failures };
+  }
+
   return JSON.stringify(jsonFeed, null, 2);
 }
 
-const HEADERS = {
-  "Content-Type": "application/rss+xml; charset=utf-8",
-  "Cache-Control": "max-age=600, s-maxage=600", // Cache for 10 minutes
-};
+// The diagnostics namespace is only declared when there's something to report
+function diagnosticsNamespace(mergedFeed: CustomFeed): string {
+  return mergedFeed.failures?.length
+    ? ` xmlns:rssrssrss="${DIAGNOSTICS_NAMESPACE}"`
+    : "";
+}
 
-export async function GET(request: NextRequest) {
-  // Get the URL parameters
-  const searchParams = request.nextUrl.searchParams;
-  let urls: string[] = [];
-  const format = searchParams.get("format") || "rss"; // Default to RSS
+// Helper function to list failed sources in RSS and Atom output
+function diagnosticsXml(mergedFeed: CustomFeed, indent: string): string {
+  return (mergedFeed.failures || [])
+    .map(
+      (failure) =>
+        `${indent}<rssrssrss:error url="${escapeXml(failure.url)}" guid="${
+          failure.guid
+        }" since="${failure.since}">${escapeXml(failure.error)}</rssrssrss:error>\n`,
+    )
+    .join("");
+}
 
-  // Check for compressed feeds parameter first
-  const compressedFeeds = searchParams.get("feeds");
-  if (compressedFeeds) {
-    try {
-      // Decompress using LZ-string and parse JSON
-      const decompressed =
-        LZString.decompressFromEncodedURIComponent(compressedFeeds);
-      if (!decompressed) {
-        throw new Error("Failed to decompress feeds");
-      }
-      urls = JSON.parse(decompressed);
-    } catch (error) {
-      // Per #7, an all-lowercase payload can hint at a Safari issue with copy/pasting and we tweak the error message to help.
-      if (compressedFeeds.toLowerCase() === compressedFeeds) {
-        return NextResponse.json(
-          {
-            error:
-              "The payload you've pasted is all lowercase, which is a common issue with Safari copy/paste. Please try again with a different browser.",
-            payload: compressedFeeds,
-          },
-          { status: 400 }
-        );
-      }
-      return NextResponse.json(
-        {
-          error:
-            `${GENERATOR} cannot parse that payload. Are you sure you copied/pasted it correctly?`,
-          payload: compressedFeeds,
-        },
-        { status: 400 }
-      );
-    }
-  } else {
-    // Fall back to old URL parameter format
-    urls = searchParams.getAll("url");
-  }
+// RFC 5005 paging link to the next page, when there is one
+function nextLinkXml(
+  mergedFeed: CustomFeed,
+  indent: string,
+  element: string,
+): string {
+  return mergedFeed.nextUrl
+    ? `${indent}<${element} rel="next" href="${escapeXml(mergedFeed.nextUrl)}" />\n`
+    : "";
+}
 
-  // If no URLs are provided, return an error
-  if (!urls || urls.length === 0) {
-    return NextResponse.json(
-      { error: "No RSS feed URLs provided" },
-      { status: 400 }
-    );
+// Helper function to convert an item's date into an RFC 3339 timestamp for Atom
+function toAtomDate(item: CustomItem): string | undefined {
+  const date = itemDate(item);
+  return date && toRFC3339(date);
+}
+
+// Entries without a guid or link get a name-based UUID from their source and
+// title, so they keep the same id from one poll to the next
+function atomEntryId(item: CustomItem): string {
+  const id = item.guid || item.link;
+  if (id) {
+    return id;
   }
+  const hex = createHash("sha256")
+    .update(
+      `${item.sourceFeedUrl || ""}\n${item.title || ""}\n${
+        item.title ? "" : item.content || item.contentSnippet || ""
+      }`,
+    )
+    .digest("hex");
+  // Laid out as a version 5 (name-based) UUID
+  const variant = ((Number.parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `urn:uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(
+    13,
+    16,
+  )}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
 
-  // Fetch and parse all feeds (RSS and JSON) in parallel
-  const feedPromises = urls.map(async (url) => {
-    try {
-      // Check if it's a JSON Feed first
-      if (await isJSONFeed(url)) {
-        return { feed: await parseJSONFeed(url), error: null, url };
-      } else {
-        // Fall back to RSS parsing
-        const feed = await parser.parseURL(url);
-        return {
-          feed: {
-            ...feed,
-            items: feed.items.map((item: CustomItem) => ({
-              ...item,
-              content: item.content ? extractContentAfterMarker(item.content) : undefined,
-              sourceFeedTitle: feed.title,
-              sourceFeedUrl: url,
-            })),
-          },
-          error: null,
-          url,
-        };
-      }
-    } catch (error) {
-      console.error(`Error fetching feed from ${url}:`, error);
-      return {
-        feed: null,
-        error: error instanceof Error ? error.message : String(error),
-        url,
-      };
-    }
-  });
+// Helper function to generate Atom 1.0 output
+function generateAtomFeed(mergedFeed: CustomFeed, requestUrl: string): string {
+  const itemDates = mergedFeed.items
+    .map((item) => toAtomDate(item))
+    .filter(Boolean) as string[];
+  const feedUpdated = itemDates.sort().pop() || new Date().toISOString();
 
-  const results = await Promise.all(feedPromises);
+  const entries = mergedFeed.items
+    .map((item) => {
+      const published = toAtomDate(item);
+      let entryXml = "  <entry>\n";
 
-  // Combine all items into a single array, and collect failed feeds
-  const allItems: CustomItem[] = [];
-  const failedFeeds: Array<{ url: string; error: string }> = [];
+      entryXml += `    <id>${escapeXml(atomEntryId(item))}</id>\n`;
+      entryXml += `    <title type="text">${escapeXml(item.title || "")}</title>\n`;
 
-  results.forEach(({ feed, error, url }) => {
-    if (error) {
-      failedFeeds.push({ url, error });
-    } else if (feed && feed.items && feed.items.length > 0) {
-      allItems.push(...feed.items);
-    }
-  });
+      if (item.link) {
+        entryXml += `    <link rel="alternate" href="${escapeXml(item.link)}" />\n`;
+      }
 
-  // Create error items for failed feeds and add them to the beginning
-  const errorItems: CustomItem[] = failedFeeds.map((failed) => ({
-    title: `⚠️ Failed to load feed: ${failed.url}`,
-    link: failed.url,
-    pubDate: new Date().toUTCString(),
-    isoDate: new Date().toISOString(),
-    contentSnippet: `Error: ${failed.error}`,
-    content: `<p>Failed to load this feed:</p><p><code>${escapeXml(failed.url)}</code></p><p>Error: ${escapeXml(failed.error)}</p>`,
-    guid: `error-${failed.url}-${Date.now()}`,
-  }));
+      item.enclosures?.forEach((enclosure) => {
+        entryXml += `    <link rel="enclosure" href="${escapeXml(enclosure.url)}"${
+          enclosure.type ? ` type="${escapeXml(enclosure.type)}"` : ""
+        }${enclosure.length ? ` length="${enclosure.length}"` : ""}${
+          enclosure.title ? ` title="${escapeXml(enclosure.title)}"` : ""
+        } />\n`;
+      });
+
+      // <updated> is required; undated items only get the feed's, so no
+      // publication date is made up for them
+      if (published) {
+        entryXml += `    <published>${published}</published>\n`;
+      }
+      entryXml += `    <updated>${published || feedUpdated}</updated>\n`;
 
-  // Sort regular items by date (newest first), keep error items at top
-  allItems.sort((a, b) => {
-    const dateA = a.isoDate ? new Date(a.isoDate) : new Date(a.pubDate || 0);
-    const dateB = b.isoDate ? new Date(b.isoDate) : new Date(b.pubDate || 0);
-    return dateB.getTime() - dateA.getTime();
-  });
+      if (item.creator) {
+        entryXml += `    <author>\n      <name>${escapeXml(
+          item.creator,
+        )}</name>\n    </author>\n`;
+      }
 
-  // Combine error items (at the top) with sorted regular items
-  const allItemsWithErrors: CustomItem[] = [...errorItems, ...allItems];
+      if (item.content) {
+        entryXml += `    <content type="html">${escapeXml(
+          item.content,
+        )}</content>\n`;
+      }
+      if (item.contentSnippet) {
+        entryXml += `    <summary type="text">${escapeXml(
+          item.contentSnippet,
+        )}</summary>\n`;
+      }
 
-  // Get feed titles from successful feeds for the description
-  const successfulFeedTitles = results
-    .filter(({ feed }) => feed && feed.title)
-    .map(({ feed }) => feed?.title)
-    .filter(Boolean) as string[];
+      if (item.categories && item.categories.length > 0) {
+        item.categories.forEach((category) => {
+          entryXml += `    <category term="${escapeXml(category)}" />\n`;
+        });
+      }
 
-  // Create a merged feed
-  const mergedFeed: CustomFeed = {
-    title: FEED_TITLE,
-    description: `Combined feed from ${successfulFeedTitles.join(", ")}${
-      failedFeeds.length > 0 ? ` (${failedFeeds.length} feed(s) failed to load)` : ""
-    }`,
-    link: request.nextUrl.toString(),
-    items: allItemsWithErrors.slice(0, 100),
-  };
+      // Other sources that published the same story
+      item.duplicateSources?.forEach((source) => {
+        entryXml += `    <category term="${escapeXml(
+          source.title || source.url,
+        )}" scheme="${escapeXml(source.url)}" />\n`;
+      });
+
+      // Atom's <source> carries the metadata of the feed the entry came from
+      if (item.sourceFeedUrl) {
+        entryXml += "    <source>\n";
+        entryXml += `      <id>${escapeXml(item.sourceFeedUrl)}</id>\n`;
+        if (item.sourceFeedTitle) {
+          entryXml += `      <title>${escapeXml(item.sourceFeedTitle)}</title>\n`;
+        }
+        entryXml += `      <link rel="self" href="${escapeXml(
+          item.sourceFeedUrl,
+        )}" />\n`;
+        entryXml += "    </source>\n";
+      }
 
-  // Check if JSON format is requested
-  if (format === "json" || format === "jsonfeed") {
-    const jsonOutput = generateJSONFeed(mergedFeed, request.nextUrl.toString());
+      entryXml += "  </entry>\n";
+      return entryXml;
+    })
+    .join("");
 
-    return new NextResponse(jsonOutput, {
-      headers: {
-        "Content-Type": "application/feed+json; charset=utf-8",
-        "Cache-Control": "max-age=600, s-maxage=600",
-      },
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom"${diagnosticsNamespace(mergedFeed)}>
+  <id>${escapeXml(requestUrl)}</id>
+  <title>${escapeXml(mergedFeed.title || FEED_TITLE)}</title>
+  <subtitle>${escapeXml(
+    mergedFeed.description || "Combined feed from multiple sources",
+  )}</subtitle>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(requestUrl)}" />
+${nextLinkXml(mergedFeed, "  ", "link")}  <updated>${feedUpdated}</updated>
+  <author>
+    <name>${GENERATOR}</name>
+  </author>
+  <generator>${GENERATOR}</generator>
+${diagnosticsXml(mergedFeed, "  ")}${entries}</feed>`;
+}
+
+// Applies the per-source settings of the merged-feed config to a parsed feed,
+// counting the items each step drops for diagnostics
+function applySourceSettings(
+  feed: CustomFeed,
+  source: FeedSource,
+  config: FeedConfig,
+  limits: MergeLimits,
+): {
+  feed: CustomFeed;
+  dropped: Pick<DroppedItems, "filtered" | "outside_window" | "source_limit">;
+} {
+  const title = source.title || feed.title;
+  let items: CustomItem[] = feed.items.map((item) => {
+    // Untrusted HTML is cleaned before it reaches readers or our preview
+    const content =
+      item.content && !source.raw ? sanitizeContent(item.content) : item.content;
+    return {
+      ...item,
+      content,
+      // Without an image in its metadata, an item gets the first image left
+      // in its content after transforms and sanitizing
+      image: item.image || firstImageInContent(content),
+      sourceFeedTitle: title,
+    };
+  });
+
+  // Global filters first, then the ones specific to this source
+  const received = items.length;
+  items = filterItems(items, [config.filters, source.filters]);
+  const filtered = received - items.length;
+
+  // Drop items outside the time window; undated items can't be judged, so keep them
+  const { since } = limits;
+  const unfiltered = items.length;
+  if (since) {
+    items = items.filter((item) => {
+      const date = itemDate(item);
+      return !date || date >= since;
     });
   }
 
-  // Generate XML using string concatenation (default RSS output)
+  const outsideWindow = unfiltered - items.length;
+
+  // The stricter of the source's own cap and the request-wide one applies
+  const uncapped = items.length;
+  const cap = Math.min(
+    source.limit ?? Number.POSITIVE_INFINITY,
+    limits.perSource ?? Number.POSITIVE_INFINITY,
+  );
+  if (Number.isFinite(cap)) {
+    items = items
+      .sort(compareItemDates)
+      .slice(0, cap);
+  }
+
+  return {
+    feed: { ...feed, title, items },
+    dropped: {
+      filtered,
+      outside_window: outsideWindow,
+      source_limit: uncapped - items.length,
+    },
+  };
+}
+
+// Helper function to generate RSS 2.0 output
+function generateRSSFeed(mergedFeed: CustomFeed, requestUrl: string): string {
   const items = mergedFeed.items
     .map((item) => {
       let itemXml = "    <item>\n";
@@ -289,11 +376,10 @@ export async function GET(request: NextRequest) {
         item.guid || item.link || ""
       )}</guid>\n`;
 
-      // Publication date
-      if (item.pubDate) {
-        itemXml += `      <pubDate>${escapeXml(item.pubDate)}</pubDate>\n`;
-      } else if (item.isoDate) {
-        itemXml += `      <pubDate>${escapeXml(item.isoDate)}</pubDate>\n`;
+      // Publication date, always RFC 822
+      const date = itemDate(item);
+      if (date) {
+        itemXml += `      <pubDate>${toRFC822(date)}</pubDate>\n`;
       }
 
       // Creator (DC namespace)
@@ -323,6 +409,47 @@ export async function GET(request: NextRequest) {
         });
       }
 
+      // Other sources that published the same story
+      item.duplicateSources?.forEach((source) => {
+        itemXml += `      <category domain="${escapeXml(
+          source.url,
+        )}">${escapeXml(source.title || source.url)}</category>\n`;
+      });
+
+      // Enclosures (podcast episodes and other media)
+      item.enclosures?.forEach((enclosure) => {
+        itemXml += `      <enclosure url="${escapeXml(enclosure.url)}" length="${
+          enclosure.length || 0
+        }" type="${escapeXml(
+          enclosure.type || "application/octet-stream"
+        )}" />\n`;
+      });
+
+      // Canonical image
+      if (item.image) {
+        itemXml += `      <media:thumbnail url="${escapeXml(item.image)}" />\n`;
+      }
+
+      // iTunes podcast fields
+      const duration =
+        item.itunes?.duration ?? item.enclosures?.[0]?.duration?.toString();
+      if (duration) {
+        itemXml += `      <itunes:duration>${escapeXml(duration)}</itunes:duration>\n`;
+      }
+      if (item.itunes?.episode) {
+        itemXml += `      <itunes:episode>${escapeXml(
+          item.itunes.episode
+        )}</itunes:episode>\n`;
+      }
+      if (item.itunes?.image) {
+        itemXml += `      <itunes:image href="${escapeXml(item.itunes.image)}" />\n`;
+      }
+      if (item.itunes?.explicit) {
+        itemXml += `      <itunes:explicit>${escapeXml(
+          item.itunes.explicit
+        )}</itunes:explicit>\n`;
+      }
+
       // Source information
       if (item.sourceFeedTitle && item.sourceFeedUrl) {
         itemXml += `      <source url="${escapeXml(
@@ -335,21 +462,504 @@ export async function GET(request: NextRequest) {
     })
     .join("");
 
-  const xml = `<?xml version="1.0" encoding="UTF-8"?>
-<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:itunes="${ITUNES_NAMESPACE}" xmlns:media="${MEDIA_NAMESPACE}"${
+    mergedFeed.nextUrl ? ` xmlns:atom="${ATOM_NAMESPACE}"` : ""
+  }${diagnosticsNamespace(mergedFeed)}>
   <channel>
     <title>${escapeXml(mergedFeed.title || FEED_TITLE)}</title>
     <description>${escapeXml(
       mergedFeed.description || "Combined feed from multiple sources"
     )}</description>
-    <link>${escapeXml(mergedFeed.link || request.nextUrl.toString())}</link>
+    <link>${escapeXml(mergedFeed.link || requestUrl)}</link>
     <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
     <generator>${GENERATOR}</generator>
-${items}  </channel>
+${nextLinkXml(mergedFeed, "    ", "atom:link")}${diagnosticsXml(mergedFeed, "    ")}${items}  </channel>
 </rss>`;
+}
+
+const HEADERS = {
+  "Content-Type": "application/rss+xml; charset=utf-8",
+  "Cache-Control": "max-age=600, s-maxage=600", // Cache for 10 minutes
+};
+
+export async function GET(request: NextRequest) {
+  // Get the URL parameters
+  const searchParams = request.nextUrl.searchParams;
+  let config: FeedConfig;
+  const format = searchParams.get("format") || "rss"; // Default to RSS
+
+  // Cross-feed deduplication is opt-in, e.g. `dedupe=guid,link` or `dedupe=all`
+  const dedupeParam = searchParams.get("dedupe");
+  const dedupeStrategies = dedupeParam
+    ? parseDedupeStrategies(dedupeParam)
+    : [];
+  if (!dedupeStrategies) {
+    return NextResponse.json(
+      {
+        error:
+          "Unknown dedupe strategy. Use a comma-separated list of guid, link and title, or all.",
+        dedupe: dedupeParam,
+      },
+      { status: 400 }
+    );
+  }
+
+  // How failed sources are reported: inline items, headers only, or silent
+  const errorsParam = searchParams.get("errors");
+  const errorMode = parseErrorMode(errorsParam);
+  if (!errorMode) {
+    return NextResponse.json(
+      {
+        error: `Unknown error reporting mode. Use one of ${ERROR_MODES.join(", ")}.`,
+        errors: errorsParam,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Diagnostics flag sources with nothing newer than `stale_days` days
+  let staleDays: number;
+  try {
+    staleDays = parseStaleDays(searchParams.get("stale_days"));
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  // What happens to items without a usable date
+  const undatedParam = searchParams.get("undated");
+  const undatedPolicy = parseUndatedPolicy(undatedParam);
+  if (!undatedPolicy) {
+    return NextResponse.json(
+      {
+        error: `Unknown undated policy. Use one of ${UNDATED_POLICIES.join(", ")}.`,
+        undated: undatedParam,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Output size and time window, bounded server-side
+  let limits: MergeLimits;
+  try {
+    limits = parseMergeLimits(searchParams);
+  } catch (error) {
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 }
+    );
+  }
+
+  // How items from different sources are ordered and interleaved
+  const orderParam = searchParams.get("order");
+  const ordering = parseOrdering(orderParam);
+  if (!ordering) {
+    return NextResponse.json(
+      {
+        error: `Unknown ordering. Use one of ${ORDERINGS.join(", ")}.`,
+        order: orderParam,
+      },
+      { status: 400 }
+    );
+  }
+
+  // Digests bucket items by calendar day or ISO week in the `tz` timezone
+  const digestParam = searchParams.get("digest");
+  let digest: Omit<DigestOptions, "feedKey"> | undefined;
+  if (digestParam !== null) {
+    const period = parseDigestPeriod(digestParam);
+    if (!period) {
+      return NextResponse.json(
+        {
+          error: `Unknown digest period. Use one of ${DIGEST_PERIODS.join(", ")}.`,
+          digest: digestParam,
+        },
+        { status: 400 }
+      );
+    }
+    const tzParam = searchParams.get("tz");
+    const timeZone = parseTimeZone(tzParam);
+    if (!timeZone) {
+      return NextResponse.json(
+        {
+          error: "Unknown timezone. Use an IANA name such as Europe/Berlin.",
+          tz: tzParam,
+        },
+        { status: 400 }
+      );
+    }
+    digest = { period, timeZone };
+  }
+
+  // Later pages continue after the last item of the previous one, or with
+  // interleaved orderings, after the last item of each source
+  const perSourceCursor = ordering !== "date" && !digest;
+  const cursorParam = searchParams.get("cursor");
+  let cursor: PageCursor | undefined;
+  if (cursorParam !== null) {
+    const parsed = parsePageCursor(cursorParam);
+    if (!parsed || (parsed.kind === "sources") !== perSourceCursor) {
+      return NextResponse.json(
+        {
+          error: "Invalid cursor. Use the next link of a previous page.",
+          cursor: cursorParam,
+        },
+        { status: 400 }
+      );
+    }
+    cursor = parsed;
+  }
+
+  // Read a saved bundle (/f/<slug> or `bundle`), the compressed feeds
+  // parameter, or the old repeated url parameters
+  const pathSlug = request.nextUrl.pathname.match(/^\/f\/([^/]+)\/?$/)?.[1];
+  try {
+    config = await loadFeedConfig(
+      searchParams,
+      pathSlug ?? searchParams.get("bundle"),
+    );
+  } catch (error) {
+    if (error instanceof BundleNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof FeedConfigError) {
+      return NextResponse.json(
+        { error: error.message, payload: searchParams.get("feeds") },
+        { status: 400 }
+      );
+    }
+    throw error;
+  }
+
+  const sources = enabledSources(config);
+
+  // If no URLs are provided, return an error
+  if (sources.length === 0) {
+    return NextResponse.json(
+      { error: "No RSS feed URLs provided" },
+      { status: 400 }
+    );
+  }
+
+  // Fetch and parse all feeds in parallel; each source is fetched at most once
+  // Sources still outstanding when the deadline passes are aborted and
+  // reported as failed, so one slow upstream can't stall the whole feed.
+  const { deadline, ...fetchLimits } = getFetchLimits();
+  const deadlineController = new AbortController();
+  const deadlineTimer = setTimeout(
+    () =>
+      deadlineController.abort(
+        new Error(`No response within the ${deadline}ms request deadline`),
+      ),
+    deadline,
+  );
+  const fetchOptions = {
+    ...fetchLimits,
+    cache: getUpstreamCache(),
+    cacheTTL: getUpstreamCacheTTL(),
+    signal: deadlineController.signal,
+  };
+  const feedPromises = sources.map(async (source) => {
+    const { url } = source;
+    const started = performance.now();
+    try {
+      const fetched = await fetchFeed(url, fetchOptions);
+      const { feed } = fetched;
+      // A pasted website is merged using the feed discovered behind it
+      const feedUrl = fetched.discovered ? fetched.url : url;
+      const transforms = transformsForSource(source, feedUrl);
+      // Relative URLs are resolved against where the feed was served from
+      const items = feed.items.map((item: CustomItem) =>
+        resolveItemUrls(
+          {
+            ...item,
+            content: item.content
+              ? applyTransforms(item.content, transforms)
+              : undefined,
+            sourceFeedTitle: feed.title,
+            sourceFeedUrl: feedUrl,
+          },
+          feed,
+          fetched.url,
+        ),
+      );
+      const datedItems = normalizeItemDates(
+        items,
+        undatedPolicy,
+        fetched.fetchedAt,
+      );
+      const settled = applySourceSettings(
+        { ...feed, items: datedItems },
+        source,
+        config,
+        limits,
+      );
+      // Only the feed's own dates count: fetch-time dates would hide a feed
+      // that stopped dating its items
+      const newest = items.reduce<Date | null>((latest, item) => {
+        const date = itemDate(item);
+        return date && (!latest || date > latest) ? date : latest;
+      }, null);
+      const diagnostics: SourceDiagnostics = {
+        url,
+        resolved_url: fetched.url,
+        discovered: fetched.discovered,
+        format: fetched.format,
+        status: fetched.status,
+        cached: fetched.cached,
+        latency_ms: Math.round(performance.now() - started),
+        item_count: items.length,
+        included_count: 0,
+        newest_item: newest ? newest.toISOString() : null,
+        stale: isStale(newest, staleDays),
+        error: null,
+        error_guid: null,
+        dropped: {
+          ...emptyDroppedItems(),
+          ...settled.dropped,
+          undated: items.length - datedItems.length,
+        },
+      };
+      return {
+        feed: settled.feed,
+        error: null,
+        url,
+        feedUrl,
+        discoveredUrl: fetched.discovered ? fetched.url : null,
+        diagnostics,
+      };
+    } catch (error) {
+      console.error(`Error fetching feed from ${url}:`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      // Error statuses keep the status and where the request ended up
+      const upstream = error instanceof UpstreamStatusError ? error : null;
+      const diagnostics: SourceDiagnostics = {
+        url,
+        resolved_url: upstream?.url ?? null,
+        discovered: false,
+        format: null,
+        status: upstream?.status ?? null,
+        cached: false,
+        latency_ms: Math.round(performance.now() - started),
+        item_count: 0,
+        included_count: 0,
+        newest_item: null,
+        stale: false,
+        error: message,
+        error_guid: null,
+        dropped: emptyDroppedItems(),
+      };
+      return {
+        feed: null,
+        error: message,
+        url,
+        feedUrl: url,
+        discoveredUrl: null,
+        diagnostics,
+      };
+    }
+  });
+
+  const results = await Promise.all(feedPromises);
+  clearTimeout(deadlineTimer);
+
+  // Combine all items into a single array, and collect failed feeds
+  let allItems: CustomItem[] = [];
+  const failedFeeds: FeedFailure[] = [];
+
+  results.forEach(({ feed, error, url, diagnostics }) => {
+    if (error) {
+      const failure = describeFailure(url, error);
+      diagnostics.error_guid = failure.guid;
+      failedFeeds.push(failure);
+    } else if (feed && feed.items && feed.items.length > 0) {
+      allItems.push(...feed.items);
+    }
+  });
+
+  // Inline mode reports failed feeds as items at the beginning. They're dated
+  // when the error was first seen, so a feed that stays broken doesn't look new.
+  const errorItems: CustomItem[] =
+    errorMode !== "inline"
+      ? []
+      : failedFeeds.map((failed) => ({
+          title: `⚠️ Failed to load feed: ${failed.url}`,
+          link: failed.url,
+          pubDate: new Date(failed.since).toUTCString(),
+          isoDate: failed.since,
+          contentSnippet: `Error: ${failed.error}`,
+          content: `<p>Failed to load this feed:</p><p><code>${escapeXml(failed.url)}</code></p><p>Error: ${escapeXml(failed.error)}</p>`,
+          guid: failed.guid,
+        }));
+
+  // Collapse the same story published by several sources
+  const beforeDedupe = countBySource(allItems);
+  if (dedupeStrategies.length > 0) {
+    allItems = dedupeItems(allItems, dedupeStrategies);
+  }
+
+  // Order regular items (newest first by default), keep error items at top
+  const orderedSources = results.map(({ feedUrl }, index) => ({
+    url: feedUrl,
+    weight: sources[index].weight,
+  }));
+  allItems = orderItems(allItems, ordering, orderedSources);
+
+  // In digest mode, each day or week of items becomes a single item
+  const digestOptions: DigestOptions | undefined = digest && {
+    ...digest,
+    feedKey: sources.map((source) => source.url).join("\n"),
+  };
+  const outputItems = digestOptions
+    ? digestItems(allItems, digestOptions)
+    : allItems;
+
+  // Combine error items (at the top) with sorted regular items. Error items
+  // are only on the first page. Later pages of an interleaved ordering
+  // interleave what each source has left.
+  let listedItems: CustomItem[];
+  if (!cursor) {
+    listedItems = [...errorItems, ...outputItems];
+  } else if (cursor.kind === "item") {
+    listedItems = itemsAfterCursor(outputItems, cursor.position);
+  } else {
+    listedItems = orderItems(
+      unservedItems(allItems, cursor.positions),
+      ordering,
+      orderedSources,
+    );
+  }
+  const pageItems = listedItems.slice(0, limits.limit);
+
+  // Get feed titles from successful feeds for the description
+  const successfulFeedTitles = results
+    .filter(({ feed }) => feed && feed.title)
+    .map(({ feed }) => feed?.title)
+    .filter(Boolean) as string[];
+
+  // Create a merged feed
+  const mergedFeed: CustomFeed = {
+    title: FEED_TITLE,
+    description: `Combined feed from ${successfulFeedTitles.join(", ")}${
+      errorMode === "inline" && failedFeeds.length > 0
+        ? ` (${failedFeeds.length} feed(s) failed to load)`
+        : ""
+    }`,
+    link: request.nextUrl.toString(),
+    items: pageItems,
+    failures: errorMode === "headers" ? failedFeeds : undefined,
+    nextUrl:
+      listedItems.length > pageItems.length
+        ? nextPageUrl(
+            request.nextUrl.toString(),
+            cursorAfterPage(pageItems, cursor, perSourceCursor),
+          )
+        : undefined,
+  };
+
+  // Diagnostics report what happened to every source instead of the feed
+  if (format === "diagnostics") {
+    const afterDedupe = countBySource(allItems);
+    // Digest items have no source, so count the items inside the digests
+    const included = countBySource(
+      digestOptions
+        ? itemsInDigests(allItems, mergedFeed.items, digestOptions)
+        : mergedFeed.items,
+    );
+    const sources = results.map(({ feedUrl, diagnostics }) => {
+      const kept = afterDedupe.get(feedUrl) || 0;
+      const includedCount = included.get(feedUrl) || 0;
+      return {
+        ...diagnostics,
+        included_count: includedCount,
+        dropped: {
+          ...diagnostics.dropped,
+          duplicate: (beforeDedupe.get(feedUrl) || 0) - kept,
+          total_limit: kept - includedCount,
+        },
+      };
+    });
+    return NextResponse.json(
+      {
+        generated_at: new Date().toISOString(),
+        limits: describeMergeLimits(limits),
+        stale_days: staleDays,
+        item_count: mergedFeed.items.length,
+        sources,
+      },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  }
+
+  // Validators are derived from the merged items, so they're the same for every
+  // format and stay stable across polls while nothing changes upstream.
+  const etag = computeETag(mergedFeed.items, format);
+  const lastModified = newestItemDate(allItems);
+  const cacheHeaders: Record<string, string> = {
+    "Cache-Control": HEADERS["Cache-Control"],
+    ETag: etag,
+    "X-Merge-Limits": describeMergeLimits(limits),
+  };
+  if (lastModified) {
+    cacheHeaders["Last-Modified"] = lastModified.toUTCString();
+  }
+
+  // Tell the editor which pasted URLs were web pages, and which feed was used
+  const discoveredFeeds = new URLSearchParams();
+  results.forEach(({ url, discoveredUrl }) => {
+    if (discoveredUrl) {
+      discoveredFeeds.append(url, discoveredUrl);
+    }
+  });
+  if (discoveredFeeds.size > 0) {
+    cacheHeaders["X-Discovered-Feeds"] = discoveredFeeds.toString();
+  }
+
+  // Failed sources and their errors, unless errors are silenced
+  if (errorMode !== "silent" && failedFeeds.length > 0) {
+    cacheHeaders["X-Failed-Feeds"] = new URLSearchParams(
+      failedFeeds.map(({ url, error }) => [url, error]),
+    ).toString();
+  }
+
+  if (isNotModified(request.headers, etag, lastModified)) {
+    return new NextResponse(null, { status: 304, headers: cacheHeaders });
+  }
+
+  // Check if JSON format is requested
+  if (format === "json" || format === "jsonfeed") {
+    const jsonOutput = generateJSONFeed(mergedFeed, request.nextUrl.toString());
+
+    return new NextResponse(jsonOutput, {
+      headers: {
+        ...cacheHeaders,
+        "Content-Type": "application/feed+json; charset=utf-8",
+      },
+    });
+  }
+
+  if (format === "atom") {
+    const atomOutput = generateAtomFeed(mergedFeed, request.nextUrl.toString());
+
+    return new NextResponse(atomOutput, {
+      headers: {
+        ...cacheHeaders,
+        "Content-Type": "application/atom+xml; charset=utf-8",
+      },
+    });
+  }
+
+  // Generate XML using string concatenation (default RSS output)
+  const xml = generateRSSFeed(mergedFeed, request.nextUrl.toString());
 
   // Return the XML response
   return new NextResponse(xml, {
-    headers: HEADERS,
+    headers: {
+      ...HEADERS,
+      ...cacheHeaders,
+    },
   });
 }
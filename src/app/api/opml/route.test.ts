@@ -0,0 +1,46 @@
+import { describe, expect, it } from "bun:test";
+import LZString from "lz-string";
+import { NextRequest } from "next/server";
+import { GET } from "./route";
+
+describe("GET /api/opml", () => {
+  it("should list the enabled sources of a merged feed as OPML 2.0", async () => {
+    const baseUrl = new URL("http://localhost:3000/api/opml");
+    baseUrl.searchParams.append(
+      "feeds",
+      LZString.compressToEncodedURIComponent(
+        JSON.stringify({
+          version: 2,
+          sources: [
+            { url: "https://jvns.ca/atom.xml", title: "Julia & friends" },
+            "https://overreacted.io/rss.xml",
+            { url: "https://hnrss.org/frontpage", enabled: false },
+          ],
+        }),
+      ),
+    );
+
+    const response = await GET(new NextRequest(baseUrl));
+    const text = await response.text();
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toContain("text/x-opml");
+    expect(text).toContain('<opml version="2.0">');
+    expect(text).toContain(
+      '<outline type="rss" text="Julia &amp; friends" title="Julia &amp; friends" xmlUrl="https://jvns.ca/atom.xml" />',
+    );
+    expect(text).toContain('xmlUrl="https://overreacted.io/rss.xml"');
+    expect(text).not.toContain("hnrss.org");
+    expect(text).toContain(
+      `<ownerId>http://localhost:3000/api/merge${baseUrl.search}</ownerId>`,
+    );
+  });
+
+  it("should reject payloads it cannot parse", async () => {
+    const baseUrl = new URL("http://localhost:3000/api/opml");
+    baseUrl.searchParams.append("feeds", "NOT-a-payload");
+
+    const response = await GET(new NextRequest(baseUrl));
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,49 @@
+import { BundleNotFoundError, loadFeedConfig } from "@/lib/bundles";
+import { type FeedConfig, FeedConfigError } from "@/lib/config";
+import { generateOPML } from "@/lib/opml";
+import { type NextRequest, NextResponse } from "next/server";
+
+// Returns the sources of a merged feed (same `feeds`/`url`/`bundle` parameters
+// as /api/merge) as an OPML 2.0 subscription list.
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  let config: FeedConfig;
+  try {
+    config = await loadFeedConfig(searchParams);
+  } catch (error) {
+    if (error instanceof BundleNotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    if (error instanceof FeedConfigError) {
+      return NextResponse.json(
+        { error: error.message, payload: searchParams.get("feeds") },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+
+  if (config.sources.length === 0) {
+    return NextResponse.json(
+      { error: "No RSS feed URLs provided" },
+      { status: 400 },
+    );
+  }
+
+  const mergedUrl = new URL("/api/merge", request.nextUrl);
+  mergedUrl.search = request.nextUrl.search;
+
+  const opml = generateOPML(config, {
+    title: "Merged Feed",
+    ownerUrl: mergedUrl.toString(),
+  });
+
+  return new NextResponse(opml, {
+    headers: {
+      "Content-Type": "text/x-opml; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="rssrssrss.opml"',
+      "Cache-Control": "max-age=600, s-maxage=600",
+    },
+  });
+}
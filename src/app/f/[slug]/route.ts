@@ -0,0 +1,3 @@
+// Short links to saved bundles. The merge handler reads the slug from the
+// path, so links in the output keep pointing at /f/<slug>.
+export { GET } from "@/app/api/merge/route";
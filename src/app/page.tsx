@@ -1,6 +1,14 @@
 "use client";
 
-import LZString from "lz-string";
+import {
+  type FeedConfig,
+  FeedConfigError,
+  buildFeedConfig,
+  decodeFeedConfig,
+  encodeFeedConfig,
+} from "@/lib/config";
+import { MEDIA_NAMESPACE } from "@/lib/media";
+import { type OPMLImport, parseOPML } from "@/lib/opml";
 import { useEffect, useState } from "react";
 
 type FeedItem = {
@@ -46,6 +54,18 @@ export default function Home() {
   const [previewItems, setPreviewItems] = useState<FeedItem[]>([]);
   const [isLoadingPreview, setIsLoadingPreview] = useState(false);
   const [existingUrl, setExistingUrl] = useState<string>("");
+  // Per-source settings of a loaded feed, kept so that editing doesn't drop them
+  const [loadedConfig, setLoadedConfig] = useState<FeedConfig | null>(null);
+  // Pasted website URLs whose feed the server discovered, keyed by website URL
+  const [discoveredFeeds, setDiscoveredFeeds] = useState<
+    Record<string, string>
+  >({});
+  const [opmlErrors, setOpmlErrors] = useState<OPMLImport["errors"]>([]);
+  // A saved short link for the current feeds, with the token to edit it
+  const [shortLink, setShortLink] = useState<{
+    url: string;
+    editToken: string;
+  } | null>(null);
   const getFeedsFromList = () => {
     return feedList
       .split("\n")
@@ -62,34 +82,106 @@ export default function Home() {
     }
   };
 
-  const loadExistingFeed = (url: string) => {
+  const looksLikeOPML = (text: string) =>
+    /^\s*(<\?xml[^>]*>\s*)?<opml[\s>]/i.test(text);
+
+  // Adds the feeds of an OPML document to the feeds already in the list
+  const importOPML = (xml: string, existingList: string) => {
+    const { feeds, errors } = parseOPML(xml);
+    const existing = existingList
+      .split("\n")
+      .map((feed) => feed.trim())
+      .filter((feed) => feed !== "" && !looksLikeOPML(feed));
+    const added = feeds
+      .map((feed) => feed.url)
+      .filter((url) => !existing.includes(url));
+    const urls = [...existing, ...added];
+
+    // Outline titles become source titles, unless a source already has one
+    const titles = new Map(feeds.map((feed) => [feed.url, feed.title]));
+    setLoadedConfig((previous) => {
+      const config = buildFeedConfig(urls, previous);
+      return {
+        ...config,
+        sources: config.sources.map((source) => {
+          const title = titles.get(source.url);
+          return source.title || !title ? source : { ...source, title };
+        }),
+      };
+    });
+    setFeedList(urls.join("\n"));
+    setOpmlErrors(errors);
+    setErrorMessage(
+      feeds.length === 0 ? "No feeds could be imported from that OPML" : "",
+    );
+  };
+
+  const replaceFeedUrl = (url: string, feedUrl: string) => {
+    setFeedList(
+      feedList
+        .split("\n")
+        .map((line) => (line.trim() === url ? feedUrl : line))
+        .join("\n"),
+    );
+  };
+
+  const loadExistingFeed = async (url: string) => {
     try {
       const urlObj = new URL(url);
+      const slug = urlObj.pathname.match(/^\/f\/([^/]+)\/?$/)?.[1];
       const feedsParam = urlObj.searchParams.get("feeds");
 
-      if (!feedsParam) {
+      let config: FeedConfig;
+      if (slug) {
+        // Short links are looked up on the server
+        const response = await fetch(`/api/bundles/${slug}`);
+        const data = await response.json();
+        if (!response.ok) {
+          setErrorMessage(data.error || "Failed to load short link");
+          return;
+        }
+        config = data.config;
+      } else if (feedsParam) {
+        config = decodeFeedConfig(feedsParam);
+      } else {
         setErrorMessage("No feeds parameter found in URL");
         return;
       }
 
-      const decompressed =
-        LZString.decompressFromEncodedURIComponent(feedsParam);
-      if (!decompressed) {
-        setErrorMessage("Failed to decode feed data from URL");
+      setLoadedConfig(config);
+      setFeedList(config.sources.map((source) => source.url).join("\n"));
+      setExistingUrl("");
+      setErrorMessage("");
+    } catch (error) {
+      if (error instanceof FeedConfigError) {
+        setErrorMessage(error.message);
         return;
       }
+      setErrorMessage("Invalid URL or failed to decode feed data");
+    }
+  };
 
-      const feeds = JSON.parse(decompressed);
-      if (!Array.isArray(feeds)) {
-        setErrorMessage("Invalid feed data format");
+  // Saves the current feeds on the server under a short /f/<slug> link
+  const createShortLink = async () => {
+    const validFeeds = getFeedsFromList().filter((feed) => isValidUrl(feed));
+    try {
+      const response = await fetch("/api/bundles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          config: buildFeedConfig(validFeeds, loadedConfig),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setErrorMessage(data.error || "Failed to create short link");
         return;
       }
-
-      setFeedList(feeds.join("\n"));
-      setExistingUrl("");
+      setShortLink({ url: data.url, editToken: data.edit_token });
       setErrorMessage("");
     } catch (error) {
-      setErrorMessage("Invalid URL or failed to decode feed data");
+      console.error("Error creating short link:", error);
+      setErrorMessage("Failed to create short link");
     }
   };
 
@@ -104,15 +196,24 @@ export default function Home() {
 
     setIsLoadingPreview(true);
     try {
-      // Compress feeds using LZ-string for better compression
-      const feedsData = JSON.stringify(validFeeds);
-      const compressedFeeds = LZString.compressToEncodedURIComponent(feedsData);
+      // Compressed and checksummed, in a case-insensitive encoding
+      const compressedFeeds = encodeFeedConfig(
+        buildFeedConfig(validFeeds, loadedConfig),
+      );
 
       const response = await fetch(`/api/merge?feeds=${compressedFeeds}`);
       if (!response.ok) {
         throw new Error("Failed to fetch preview");
       }
 
+      setDiscoveredFeeds(
+        Object.fromEntries(
+          new URLSearchParams(
+            response.headers.get("X-Discovered-Feeds") || "",
+          ).entries(),
+        ),
+      );
+
       const text = (await response.text()).replaceAll(
         "content:encoded",
         "content",
@@ -134,11 +235,11 @@ export default function Home() {
             content: getTextContent("content"),
             sourceFeedTitle:
               item.querySelector("source")?.textContent || undefined,
+            // The merge picks one image per item and emits it as media:thumbnail
             image:
-              parser
-                .parseFromString(getTextContent("encoded") || "", "text/html")
-                .querySelector("img")
-                ?.getAttribute("src") || undefined,
+              item
+                .getElementsByTagNameNS(MEDIA_NAMESPACE, "thumbnail")[0]
+                ?.getAttribute("url") || undefined,
           };
         });
 
@@ -155,6 +256,8 @@ export default function Home() {
   };
 
   useEffect(() => {
+    // A short link saved earlier no longer matches the edited feeds
+    setShortLink(null);
     const feeds = getFeedsFromList();
     const validFeeds = feeds.filter((feed) => isValidUrl(feed));
     if (validFeeds.length > 0) {
@@ -164,6 +267,7 @@ export default function Home() {
       return () => clearTimeout(timeoutId);
     }
     setPreviewItems([]);
+    setDiscoveredFeeds({});
   }, [feedList]);
 
   return (
@@ -185,18 +289,116 @@ export default function Home() {
           <div className="bg-neutral-300/20 p-4 rounded-md border border-neutral-300">
             <h2 className="font-semibold text-gray-800">Add your RSS feeds</h2>
             <p className="text-sm text-gray-600 mb-2">
-              Enter one RSS feed URL per line
+              Enter one RSS feed URL per line, or paste an OPML file
             </p>
             <div className="space-y-4">
               <textarea
                 value={feedList}
                 onChange={(e) => {
+                  if (looksLikeOPML(e.target.value)) {
+                    importOPML(e.target.value, feedList);
+                    return;
+                  }
                   setFeedList(e.target.value);
                   setErrorMessage("");
                 }}
                 className="w-full px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 font-mono bg-white"
                 rows={6}
               />
+              <div className="flex justify-between text-xs">
+                <label className="text-blue-600 hover:text-blue-800 cursor-pointer">
+                  Import OPML
+                  <input
+                    type="file"
+                    accept=".opml,.xml,text/x-opml,text/xml,application/xml"
+                    className="hidden"
+                    onChange={async (e) => {
+                      const file = e.target.files?.[0];
+                      if (file) {
+                        importOPML(await file.text(), feedList);
+                      }
+                      e.target.value = "";
+                    }}
+                  />
+                </label>
+                {mergedUrl && (
+                  <a
+                    href={mergedUrl.replace("/api/merge", "/api/opml")}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Export OPML
+                  </a>
+                )}
+                {mergedUrl && (
+                  <a
+                    href={`${mergedUrl}&format=diagnostics`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Diagnostics
+                  </a>
+                )}
+                {mergedUrl && (
+                  <button
+                    type="button"
+                    onClick={createShortLink}
+                    className="text-blue-600 hover:text-blue-800"
+                  >
+                    Create short link
+                  </button>
+                )}
+              </div>
+              {shortLink && (
+                <div className="mt-2 p-2 text-sm border border-neutral-300 rounded-md bg-neutral-50">
+                  <a
+                    href={shortLink.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:text-blue-800 font-semibold break-all"
+                  >
+                    {shortLink.url}
+                  </a>
+                  <p className="text-gray-600 mt-1">
+                    Edit token (needed to change or delete this link, and not
+                    shown again):{" "}
+                    <code className="break-all">{shortLink.editToken}</code>
+                  </p>
+                </div>
+              )}
+              {opmlErrors.length > 0 && (
+                <div className="p-2 text-sm border border-amber-300 rounded-md bg-amber-50 text-amber-900">
+                  <p className="font-semibold">
+                    {opmlErrors.length} OPML{" "}
+                    {opmlErrors.length === 1 ? "entry" : "entries"} couldn't be
+                    imported:
+                  </p>
+                  <ul className="list-disc pl-5">
+                    {opmlErrors.map(({ entry, reason }, index) => (
+                      <li key={index} className="break-all">
+                        <span className="font-mono">{entry}</span>: {reason}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {Object.entries(discoveredFeeds).map(([url, feedUrl]) => (
+                <div
+                  key={url}
+                  className="flex items-center gap-2 p-2 text-sm border border-blue-200 rounded-md bg-blue-50 text-blue-900"
+                >
+                  <p className="flex-1 min-w-0 break-all">
+                    <span className="font-mono">{url}</span> is a web page; its
+                    feed is at <span className="font-mono">{feedUrl}</span>
+                  </p>
+                  <button
+                    onClick={() => replaceFeedUrl(url, feedUrl)}
+                    className="px-2 py-1 text-xs font-semibold text-blue-700 bg-blue-200 rounded-sm hover:text-blue-900 whitespace-nowrap"
+                  >
+                    Use feed URL
+                  </button>
+                </div>
+              ))}
             </div>
 
             <div className=" text-center text-sm text-gray-500 flex items-center -mx-4">
@@ -222,7 +424,7 @@ export default function Home() {
                     setExistingUrl(e.target.value);
                     loadExistingFeed(e.target.value);
                   }}
-                  placeholder="https://rssrssrssrss.com/api/merge?feeds=..."
+                  placeholder="https://rssrssrssrss.com/api/merge?feeds=... or /f/..."
                   className="flex-1 px-3 py-2 text-sm text-gray-700 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 bg-white"
                 />
               </div>
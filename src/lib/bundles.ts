@@ -0,0 +1,250 @@
+import {
+  createHash,
+  randomBytes,
+  randomInt,
+  timingSafeEqual,
+} from "node:crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import {
+  type FeedConfig,
+  FeedConfigError,
+  parseFeedConfig,
+  readFeedConfig,
+} from "@/lib/config";
+
+// A merged-feed configuration saved under a short slug, e.g. /f/k3x9qa
+export type SavedBundle = {
+  slug: string;
+  config: FeedConfig;
+  // sha256 of the edit token; the token itself is only shown on creation
+  tokenHash: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type BundleStore = {
+  get(slug: string): Promise<SavedBundle | undefined>;
+  // Resolves to false if the slug is already taken
+  create(bundle: SavedBundle): Promise<boolean>;
+  update(bundle: SavedBundle): Promise<void>;
+  delete(slug: string): Promise<void>;
+};
+
+export class BundleNotFoundError extends Error {
+  constructor(slug: string) {
+    super(`No saved feed called "${slug}"`);
+    this.name = "BundleNotFoundError";
+  }
+}
+
+// Lowercase letters and digits without the easily confused 0/o, 1/l/i. Slugs
+// are matched case-insensitively, so a browser or chat app changing their case
+// doesn't break them.
+const SLUG_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+const SLUG_LENGTH = 6;
+
+export function generateSlug(): string {
+  let slug = "";
+  for (let i = 0; i < SLUG_LENGTH; i++) {
+    slug += SLUG_ALPHABET[randomInt(SLUG_ALPHABET.length)];
+  }
+  return slug;
+}
+
+// Lowercases a slug from a URL, or returns null if it can't be one of ours
+export function normalizeSlug(value: string): string | null {
+  const slug = value.trim().toLowerCase();
+  return /^[a-z0-9]{4,32}$/.test(slug) ? slug : null;
+}
+
+export function generateEditToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function hashEditToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function verifyEditToken(
+  bundle: SavedBundle,
+  token: string | null,
+): boolean {
+  if (!token) {
+    return false;
+  }
+  const expected = Buffer.from(bundle.tokenHash, "hex");
+  const actual = Buffer.from(hashEditToken(token), "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Stores each bundle as a JSON file named after its slug
+export function createFileBundleStore(directory: string): BundleStore {
+  const pathFor = (slug: string) => join(directory, `${slug}.json`);
+
+  return {
+    async get(slug) {
+      try {
+        const bundle = JSON.parse(await readFile(pathFor(slug), "utf8"));
+        return { ...bundle, config: parseFeedConfig(bundle.config) };
+      } catch {
+        return undefined;
+      }
+    },
+    async create(bundle) {
+      await mkdir(directory, { recursive: true });
+      try {
+        // "wx" fails if the file exists, so two bundles can't share a slug
+        await writeFile(pathFor(bundle.slug), JSON.stringify(bundle), {
+          flag: "wx",
+        });
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+          return false;
+        }
+        throw error;
+      }
+    },
+    async update(bundle) {
+      // Write-then-rename so readers never see a half-written file
+      const path = pathFor(bundle.slug);
+      const temporaryPath = `${path}.${randomBytes(6).toString("hex")}.tmp`;
+      await writeFile(temporaryPath, JSON.stringify(bundle));
+      await rename(temporaryPath, path);
+    },
+    async delete(slug) {
+      await rm(pathFor(slug), { force: true });
+    },
+  };
+}
+
+let sharedStore: { key: string; store: BundleStore | null } | null = null;
+
+// Saved bundles are off unless BUNDLE_STORE is "fs", which keeps them in
+// BUNDLE_STORE_DIR (default: .bundles in the working directory).
+export function getBundleStore(): BundleStore | null {
+  const backend = process.env.BUNDLE_STORE || "none";
+  const directory =
+    process.env.BUNDLE_STORE_DIR || join(process.cwd(), ".bundles");
+  const key = `${backend}:${directory}`;
+
+  if (sharedStore?.key !== key) {
+    let store: BundleStore | null;
+    switch (backend) {
+      case "none":
+        store = null;
+        break;
+      case "fs":
+        store = createFileBundleStore(directory);
+        break;
+      default:
+        throw new Error(`Unknown BUNDLE_STORE backend: ${backend}`);
+    }
+    sharedStore = { key, store };
+  }
+  return sharedStore.store;
+}
+
+// Saves a config under a fresh slug, retrying on the rare collision
+export async function createBundle(
+  store: BundleStore,
+  config: FeedConfig,
+): Promise<{ bundle: SavedBundle; editToken: string }> {
+  const editToken = generateEditToken();
+  const now = new Date().toISOString();
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const bundle: SavedBundle = {
+      slug: generateSlug(),
+      config,
+      tokenHash: hashEditToken(editToken),
+      createdAt: now,
+      updatedAt: now,
+    };
+    if (await store.create(bundle)) {
+      return { bundle, editToken };
+    }
+  }
+  throw new Error("Could not find a free slug");
+}
+
+// The merged-feed config for a request: the saved bundle named by `slug` (the
+// `bundle` parameter by default), otherwise the stateless `feeds`/`url`
+// parameters
+export async function loadFeedConfig(
+  searchParams: URLSearchParams,
+  slug: string | null = searchParams.get("bundle"),
+): Promise<FeedConfig> {
+  if (slug === null) {
+    return readFeedConfig(searchParams);
+  }
+  const normalized = normalizeSlug(slug);
+  const bundle = normalized
+    ? await getBundleStore()?.get(normalized)
+    : undefined;
+  if (!bundle) {
+    throw new BundleNotFoundError(slug);
+  }
+  return bundle.config;
+}
+
+// Largest accepted create/update request body
+export const MAX_BUNDLE_BYTES = 64 * 1024;
+
+// Reads the request body as text, stopping as soon as it passes
+// MAX_BUNDLE_BYTES rather than buffering whatever the client sends
+async function readLimitedBody(request: Request): Promise<string> {
+  const tooLarge = () =>
+    new FeedConfigError(
+      `Request body is larger than ${MAX_BUNDLE_BYTES} bytes`,
+    );
+  if (Number(request.headers.get("content-length")) > MAX_BUNDLE_BYTES) {
+    throw tooLarge();
+  }
+  if (!request.body) {
+    return "";
+  }
+
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.byteLength;
+    if (received > MAX_BUNDLE_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+// Reads `{ "config": ... }` from a create/update request body, validating the
+// config the same way as a `feeds` payload. Throws a FeedConfigError.
+export async function readBundleRequest(request: Request): Promise<FeedConfig> {
+  const body = await readLimitedBody(request);
+  let data: unknown;
+  try {
+    data = JSON.parse(body);
+  } catch {
+    throw new FeedConfigError("Request body must be JSON");
+  }
+  if (typeof data !== "object" || data === null || !("config" in data)) {
+    throw new FeedConfigError('Request body must have a "config" property');
+  }
+  const config = parseFeedConfig(data.config);
+  if (config.sources.length === 0) {
+    throw new FeedConfigError("No RSS feed URLs provided");
+  }
+  return config;
+}
+
+// The edit token from an `Authorization: Bearer <token>` header
+export function readEditToken(headers: Headers): string | null {
+  return headers.get("authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? null;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "bun:test";
+import { type CachedFeed, createMemoryCache } from "@/lib/cache";
+
+const entry = (description: string): CachedFeed => ({
+  feed: { title: "Feed", description, items: [] },
+  format: "rss",
+  storedAt: 0,
+});
+
+describe("createMemoryCache", () => {
+  it("should evict the least recently stored entries past maxEntries", async () => {
+    const cache = createMemoryCache({ maxEntries: 2 });
+    await cache.set("a", entry("a"));
+    await cache.set("b", entry("b"));
+    await cache.set("a", entry("a again"));
+    await cache.set("c", entry("c"));
+
+    expect(await cache.get("b")).toBeUndefined();
+    expect(await cache.get("a")).toEqual(entry("a again"));
+    expect(await cache.get("c")).toBeDefined();
+  });
+
+  it("should stay within maxBytes", async () => {
+    const cache = createMemoryCache({ maxBytes: 10_000 });
+    for (let i = 0; i < 20; i++) {
+      await cache.set(`feed-${i}`, entry("x".repeat(800)));
+    }
+
+    const kept = [];
+    for (let i = 0; i < 20; i++) {
+      if (await cache.get(`feed-${i}`)) {
+        kept.push(i);
+      }
+    }
+    expect(kept.length).toBeLessThan(12);
+    expect(kept).toContain(19);
+    expect(kept).not.toContain(0);
+  });
+
+  it("should not keep entries bigger than a tenth of the budget", async () => {
+    const cache = createMemoryCache({ maxBytes: 10_000 });
+    await cache.set("small", entry("small"));
+    await cache.set("huge", entry("x".repeat(2_000)));
+
+    expect(await cache.get("huge")).toBeUndefined();
+    expect(await cache.get("small")).toBeDefined();
+  });
+});
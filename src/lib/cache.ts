@@ -0,0 +1,140 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { FeedFormat } from "@/lib/fetcher";
+import type { CustomFeed } from "@/lib/types";
+
+// What we remember about an upstream feed between requests
+export type CachedFeed = {
+  etag?: string;
+  lastModified?: string;
+  // The parsed feed, reused as-is when upstream answers 304
+  feed: CustomFeed;
+  format: FeedFormat;
+  // When the entry was last fetched or revalidated (ms since epoch)
+  storedAt: number;
+};
+
+// A web page, and the feed that autodiscovery found behind it. Requests for
+// the page go straight to the feed until fetching it fails.
+export type CachedDiscovery = {
+  discoveredUrl: string;
+  storedAt: number;
+};
+
+export type CacheEntry = CachedFeed | CachedDiscovery;
+
+export type UpstreamCache = {
+  get(url: string): Promise<CacheEntry | undefined>;
+  set(url: string, entry: CacheEntry): Promise<void>;
+};
+
+const DEFAULT_MAX_MEMORY_ENTRIES = 200;
+export const DEFAULT_MAX_MEMORY_BYTES = 32 * 1024 * 1024;
+
+// Bounded by entry count and by the approximate size of the parsed feeds. An
+// entry bigger than a tenth of the budget isn't kept, so one huge feed can't
+// push out everything else.
+export function createMemoryCache({
+  maxEntries = DEFAULT_MAX_MEMORY_ENTRIES,
+  maxBytes = DEFAULT_MAX_MEMORY_BYTES,
+}: { maxEntries?: number; maxBytes?: number } = {}): UpstreamCache {
+  const entries = new Map<string, { entry: CacheEntry; size: number }>();
+  let totalSize = 0;
+
+  const remove = (url: string) => {
+    const existing = entries.get(url);
+    if (existing) {
+      totalSize -= existing.size;
+      entries.delete(url);
+    }
+  };
+
+  return {
+    async get(url) {
+      return entries.get(url)?.entry;
+    },
+    async set(url, entry) {
+      // Re-insert so the Map's iteration order doubles as recency order
+      remove(url);
+      const size = JSON.stringify(entry).length;
+      if (size > maxBytes / 10) {
+        return;
+      }
+      entries.set(url, { entry, size });
+      totalSize += size;
+      while (entries.size > maxEntries || totalSize > maxBytes) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) {
+          break;
+        }
+        remove(oldest);
+      }
+    },
+  };
+}
+
+export function createFileCache(directory: string): UpstreamCache {
+  const pathFor = (url: string) =>
+    join(directory, `${createHash("sha256").update(url).digest("hex")}.json`);
+
+  return {
+    async get(url) {
+      try {
+        return JSON.parse(await readFile(pathFor(url), "utf8"));
+      } catch {
+        return undefined;
+      }
+    },
+    async set(url, entry) {
+      await mkdir(directory, { recursive: true });
+      await writeFile(pathFor(url), JSON.stringify(entry));
+    },
+  };
+}
+
+let sharedCache: { key: string; cache: UpstreamCache | null } | null = null;
+
+// Picks the backend from UPSTREAM_CACHE ("memory", the default, "fs" or
+// "none"). The filesystem backend writes to UPSTREAM_CACHE_DIR; the memory
+// backend holds at most UPSTREAM_CACHE_MAX_BYTES.
+export function getUpstreamCache(): UpstreamCache | null {
+  const backend = process.env.UPSTREAM_CACHE || "memory";
+  const directory =
+    process.env.UPSTREAM_CACHE_DIR || join(tmpdir(), "rssrssrss-cache");
+  const maxBytes = Number(process.env.UPSTREAM_CACHE_MAX_BYTES);
+  const key = `${backend}:${directory}:${maxBytes}`;
+
+  if (sharedCache?.key !== key) {
+    let cache: UpstreamCache | null;
+    switch (backend) {
+      case "none":
+        cache = null;
+        break;
+      case "fs":
+        cache = createFileCache(directory);
+        break;
+      case "memory":
+        cache = createMemoryCache({
+          maxBytes:
+            Number.isFinite(maxBytes) && maxBytes > 0
+              ? maxBytes
+              : DEFAULT_MAX_MEMORY_BYTES,
+        });
+        break;
+      default:
+        throw new Error(`Unknown UPSTREAM_CACHE backend: ${backend}`);
+    }
+    sharedCache = { key, cache };
+  }
+  return sharedCache.cache;
+}
+
+// How long (in seconds) a cached feed is used without asking upstream at all.
+// After that it's revalidated with a conditional request. Defaults to 0, which
+// revalidates on every fetch.
+export function getUpstreamCacheTTL(): number {
+  const ttl = Number(process.env.UPSTREAM_CACHE_TTL || 0);
+  return Number.isFinite(ttl) && ttl > 0 ? ttl : 0;
+}
@@ -0,0 +1,78 @@
+import { createHash } from "node:crypto";
+import type { CustomItem } from "@/lib/types";
+
+// Builds a weak ETag from the parts of each item that end up in the output.
+// It's weak because the body itself isn't byte-for-byte stable (RSS includes
+// a lastBuildDate, for instance).
+export function computeETag(items: CustomItem[], variant: string): string {
+  const hash = createHash("sha256");
+  hash.update(variant);
+  for (const item of items) {
+    hash.update(
+      JSON.stringify([
+        item.guid,
+        item.link,
+        item.title,
+        item.isoDate || item.pubDate,
+        item.creator,
+        item.content,
+        item.contentSnippet,
+        item.categories,
+        item.sourceFeedTitle,
+        item.sourceFeedUrl,
+        item.duplicateSources,
+        item.enclosures,
+        item.itunes,
+        item.image,
+      ]),
+    );
+  }
+  return `W/"${hash.digest("base64url").slice(0, 27)}"`;
+}
+
+export function newestItemDate(items: CustomItem[]): Date | null {
+  let newest: Date | null = null;
+  for (const item of items) {
+    const date = new Date(item.isoDate || item.pubDate || "");
+    if (!Number.isNaN(date.getTime()) && (!newest || date > newest)) {
+      newest = date;
+    }
+  }
+  return newest;
+}
+
+function stripWeakPrefix(etag: string): string {
+  return etag.trim().replace(/^W\//, "");
+}
+
+// Evaluates If-None-Match and If-Modified-Since the way RFC 9110 describes for
+// GET: If-None-Match takes precedence, and ETags are compared weakly.
+export function isNotModified(
+  headers: Headers,
+  etag: string,
+  lastModified: Date | null,
+): boolean {
+  const ifNoneMatch = headers.get("if-none-match");
+  if (ifNoneMatch) {
+    if (ifNoneMatch.trim() === "*") {
+      return true;
+    }
+    const target = stripWeakPrefix(etag);
+    return ifNoneMatch
+      .split(",")
+      .some((candidate) => stripWeakPrefix(candidate) === target);
+  }
+
+  const ifModifiedSince = headers.get("if-modified-since");
+  if (ifModifiedSince && lastModified) {
+    const since = new Date(ifModifiedSince);
+    // HTTP dates only have second precision
+    return (
+      !Number.isNaN(since.getTime()) &&
+      Math.floor(lastModified.getTime() / 1000) <=
+        Math.floor(since.getTime() / 1000)
+    );
+  }
+
+  return false;
+}
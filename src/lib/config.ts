@@ -0,0 +1,326 @@
+import {
+  PayloadChecksumError,
+  decodeChecksummedPayload,
+  encodeChecksummedPayload,
+  isChecksummedPayload,
+} from "@/lib/payload";
+import { TRANSFORM_NAMES, type TransformName } from "@/lib/transforms";
+import LZString from "lz-string";
+import { RE2JS } from "re2js";
+
+// The compressed `feeds` payload used to be a bare array of URLs (version 1).
+// Newer payloads are objects that carry a version and per-source settings.
+export const FEED_CONFIG_VERSION = 2;
+
+export const FILTER_FIELDS = [
+  "title",
+  "contentSnippet",
+  "content",
+  "creator",
+  "categories",
+] as const;
+
+export type FilterField = (typeof FILTER_FIELDS)[number];
+
+// Regexes run on the server for every item, so keep them short
+const MAX_FILTER_PATTERN_LENGTH = 200;
+
+// Filter regexes run on RE2, which matches in time linear in the input, so a
+// pattern from a link can't backtrack catastrophically. RE2 has no lookarounds
+// or backreferences. Throws if the pattern isn't valid RE2 syntax.
+export function compileFilterRegex(pattern: string): RE2JS {
+  return RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+}
+
+export type FilterRule = {
+  action: "include" | "exclude";
+  // A case-insensitive keyword, or a regular expression if `regex` is set
+  pattern: string;
+  regex?: boolean;
+  // Item fields to match against; defaults to all of them
+  fields?: FilterField[];
+};
+
+export type FeedSource = {
+  url: string;
+  // Overrides the title of the source feed in the merged output
+  title?: string;
+  // Maximum number of items taken from this source
+  limit?: number;
+  // Relative importance of this source when interleaving
+  weight?: number;
+  enabled?: boolean;
+  // Keeps item HTML exactly as published instead of sanitizing it. Only for
+  // sources you trust.
+  raw?: boolean;
+  // Content transforms to run, by name; when unset, the transforms that apply
+  // to the feed's host are picked automatically
+  transforms?: TransformName[];
+  // Filters that only apply to items from this source
+  filters?: FilterRule[];
+};
+
+export type FeedConfig = {
+  version: typeof FEED_CONFIG_VERSION;
+  sources: FeedSource[];
+  // Filters that apply to items from every source
+  filters?: FilterRule[];
+};
+
+// Thrown when a payload decodes fine but doesn't describe a valid config.
+export class FeedConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FeedConfigError";
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseFilterRule(value: unknown, where: string): FilterRule {
+  if (
+    !isRecord(value) ||
+    (value.action !== "include" && value.action !== "exclude")
+  ) {
+    throw new FeedConfigError(
+      `${where} must have an action of "include" or "exclude"`,
+    );
+  }
+  if (typeof value.pattern !== "string" || value.pattern === "") {
+    throw new FeedConfigError(`${where} is missing a pattern`);
+  }
+  if (value.pattern.length > MAX_FILTER_PATTERN_LENGTH) {
+    throw new FeedConfigError(
+      `${where} has a pattern longer than ${MAX_FILTER_PATTERN_LENGTH} characters`,
+    );
+  }
+
+  const rule: FilterRule = { action: value.action, pattern: value.pattern };
+  if (value.regex !== undefined) {
+    if (typeof value.regex !== "boolean") {
+      throw new FeedConfigError(`${where} has an invalid regex flag`);
+    }
+    if (value.regex) {
+      try {
+        compileFilterRegex(value.pattern);
+      } catch {
+        throw new FeedConfigError(
+          `${where} has an invalid regular expression; lookarounds and backreferences aren't supported`,
+        );
+      }
+      rule.regex = true;
+    }
+  }
+  if (value.fields !== undefined) {
+    if (
+      !Array.isArray(value.fields) ||
+      !value.fields.every((field) => FILTER_FIELDS.includes(field))
+    ) {
+      throw new FeedConfigError(
+        `${where} has invalid fields; expected some of ${FILTER_FIELDS.join(", ")}`,
+      );
+    }
+    rule.fields = value.fields;
+  }
+  return rule;
+}
+
+function parseFilterRules(value: unknown, where: string): FilterRule[] {
+  if (!Array.isArray(value)) {
+    throw new FeedConfigError(`${where} filters must be a list`);
+  }
+  return value.map((rule, index) =>
+    parseFilterRule(rule, `${where} filter #${index + 1}`),
+  );
+}
+
+function parseSource(value: unknown, index: number): FeedSource {
+  if (typeof value === "string") {
+    return { url: value };
+  }
+  if (!isRecord(value) || typeof value.url !== "string") {
+    throw new FeedConfigError(`Source #${index + 1} is missing a url`);
+  }
+
+  const source: FeedSource = { url: value.url };
+  if (value.title !== undefined) {
+    if (typeof value.title !== "string") {
+      throw new FeedConfigError(`Source #${index + 1} has an invalid title`);
+    }
+    source.title = value.title;
+  }
+  if (value.limit !== undefined) {
+    if (!Number.isInteger(value.limit) || (value.limit as number) < 1) {
+      throw new FeedConfigError(
+        `Source #${index + 1} has an invalid limit; expected a positive integer`,
+      );
+    }
+    source.limit = value.limit as number;
+  }
+  if (value.weight !== undefined) {
+    if (typeof value.weight !== "number" || !(value.weight > 0)) {
+      throw new FeedConfigError(
+        `Source #${index + 1} has an invalid weight; expected a positive number`,
+      );
+    }
+    source.weight = value.weight;
+  }
+  if (value.enabled !== undefined) {
+    if (typeof value.enabled !== "boolean") {
+      throw new FeedConfigError(
+        `Source #${index + 1} has an invalid enabled flag`,
+      );
+    }
+    source.enabled = value.enabled;
+  }
+  if (value.raw !== undefined) {
+    if (typeof value.raw !== "boolean") {
+      throw new FeedConfigError(`Source #${index + 1} has an invalid raw flag`);
+    }
+    source.raw = value.raw;
+  }
+  if (value.transforms !== undefined) {
+    if (
+      !Array.isArray(value.transforms) ||
+      !value.transforms.every((name) => typeof name === "string")
+    ) {
+      throw new FeedConfigError(
+        `Source #${index + 1} has invalid transforms; expected a list of names`,
+      );
+    }
+    const unknown = value.transforms.find(
+      (name) => !TRANSFORM_NAMES.includes(name as TransformName),
+    );
+    if (unknown !== undefined) {
+      throw new FeedConfigError(
+        `Source #${index + 1} has an unknown transform "${unknown}"; expected one of ${TRANSFORM_NAMES.join(", ")}`,
+      );
+    }
+    source.transforms = value.transforms as TransformName[];
+  }
+  if (value.filters !== undefined) {
+    source.filters = parseFilterRules(value.filters, `Source #${index + 1}`);
+  }
+  return source;
+}
+
+// Validates decoded payload data, upgrading version 1 arrays on the way.
+export function parseFeedConfig(data: unknown): FeedConfig {
+  if (Array.isArray(data)) {
+    if (!data.every((url) => typeof url === "string")) {
+      throw new FeedConfigError("Feed list must only contain URLs");
+    }
+    return {
+      version: FEED_CONFIG_VERSION,
+      sources: data.map((url) => ({ url })),
+    };
+  }
+
+  if (!isRecord(data)) {
+    throw new FeedConfigError("Feed configuration must be an object");
+  }
+  if (data.version !== FEED_CONFIG_VERSION) {
+    throw new FeedConfigError(
+      `Unsupported feed configuration version: ${JSON.stringify(
+        data.version,
+      )}. This server understands versions 1 through ${FEED_CONFIG_VERSION}.`,
+    );
+  }
+  if (!Array.isArray(data.sources)) {
+    throw new FeedConfigError("Feed configuration is missing its sources");
+  }
+
+  const config: FeedConfig = {
+    version: FEED_CONFIG_VERSION,
+    sources: data.sources.map(parseSource),
+  };
+  if (data.filters !== undefined) {
+    config.filters = parseFilterRules(data.filters, "Global");
+  }
+  return config;
+}
+
+// Decodes the compressed `feeds` parameter in either encoding: checksummed
+// base32 ("b1.…") or the older LZString URI encoding. Throws a FeedConfigError
+// if a checksummed payload is damaged or the configuration inside is invalid,
+// and a plain Error if a legacy payload can't be decompressed or parsed.
+export function decodeFeedConfig(payload: string): FeedConfig {
+  if (isChecksummedPayload(payload)) {
+    let json: string;
+    try {
+      json = decodeChecksummedPayload(payload);
+    } catch (error) {
+      if (error instanceof PayloadChecksumError) {
+        throw new FeedConfigError(
+          "This link's feed payload is damaged or incomplete. Please copy the whole link again.",
+        );
+      }
+      throw error;
+    }
+    return parseFeedConfig(JSON.parse(json));
+  }
+
+  const decompressed = LZString.decompressFromEncodedURIComponent(payload);
+  if (!decompressed) {
+    throw new Error("Failed to decompress feeds");
+  }
+  return parseFeedConfig(JSON.parse(decompressed));
+}
+
+// Reads the merged-feed config from a request's query string: the compressed
+// `feeds` payload, or else the older repeated `url` parameters. Every problem
+// with the payload is reported as a FeedConfigError with a user-facing message.
+export function readFeedConfig(searchParams: URLSearchParams): FeedConfig {
+  const compressedFeeds = searchParams.get("feeds");
+  if (!compressedFeeds) {
+    return parseFeedConfig(searchParams.getAll("url"));
+  }
+
+  try {
+    return decodeFeedConfig(compressedFeeds);
+  } catch (error) {
+    if (error instanceof FeedConfigError) {
+      throw error;
+    }
+    // Per #7, an all-lowercase payload can hint at a Safari issue with copy/pasting and we tweak the error message to help.
+    if (
+      !isChecksummedPayload(compressedFeeds) &&
+      compressedFeeds.toLowerCase() === compressedFeeds
+    ) {
+      throw new FeedConfigError(
+        "The payload you've pasted is all lowercase, which is a common issue with Safari copy/paste. Please try again with a different browser.",
+      );
+    }
+    throw new FeedConfigError(
+      "rssrssrssrss cannot parse that payload. Are you sure you copied/pasted it correctly?",
+    );
+  }
+}
+
+// Encodes a config for the `feeds` parameter. New links always use the
+// checksummed encoding; decodeFeedConfig still reads the legacy one.
+export function encodeFeedConfig(config: FeedConfig): string {
+  return encodeChecksummedPayload(JSON.stringify(config));
+}
+
+// Builds a config for the given URLs, keeping the settings of any source that
+// was already part of `previous`.
+export function buildFeedConfig(
+  urls: string[],
+  previous?: FeedConfig | null,
+): FeedConfig {
+  return {
+    ...previous,
+    version: FEED_CONFIG_VERSION,
+    sources: urls.map(
+      (url) =>
+        previous?.sources.find((source) => source.url === url) || { url },
+    ),
+  };
+}
+
+export function enabledSources(config: FeedConfig): FeedSource[] {
+  return config.sources.filter((source) => source.enabled !== false);
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "bun:test";
+import {
+  compareItemDates,
+  normalizeItemDates,
+  parseFeedDate,
+  toRFC822,
+} from "@/lib/dates";
+
+describe("parseFeedDate", () => {
+  const cases: Array<[string, string]> = [
+    ["Tue, 28 Oct 2025 10:00:00 GMT", "2025-10-28T10:00:00.000Z"],
+    ["Tue, 28 Oct 2025 10:00:00 +0530", "2025-10-28T04:30:00.000Z"],
+    ["Tue, 28 Oct 2025 10:00:00 +05:30", "2025-10-28T04:30:00.000Z"],
+    ["Mon, 28 Oct 2025 10:00:00 EST", "2025-10-28T15:00:00.000Z"],
+    ["28 Oct 2025 10:00 PDT", "2025-10-28T17:00:00.000Z"],
+    ["28 Oct 2025 10:00:00 (CEST)", "2025-10-28T08:00:00.000Z"],
+    ["Tue, 28 Oct 2025 10:00:00 GMT+2", "2025-10-28T08:00:00.000Z"],
+    ["28 Oct 25 10:00:00 +0100", "2025-10-28T09:00:00.000Z"],
+    ["Tuesday, October 28th, 2025 10:00 AM", "2025-10-28T10:00:00.000Z"],
+    ["October 28, 2025", "2025-10-28T00:00:00.000Z"],
+    ["2025-10-28T10:00:00Z", "2025-10-28T10:00:00.000Z"],
+    ["2025-10-28T10:00:00.123+02:00", "2025-10-28T08:00:00.123Z"],
+    ["2025-10-28 10:00:00", "2025-10-28T10:00:00.000Z"],
+    ["2025-10-28", "2025-10-28T00:00:00.000Z"],
+    ["2025/10/28 10:00", "2025-10-28T10:00:00.000Z"],
+  ];
+
+  for (const [input, expected] of cases) {
+    it(`should parse ${input}`, () => {
+      expect(parseFeedDate(input)?.toISOString()).toBe(expected);
+    });
+  }
+
+  it("should reject unparseable dates and ambiguous zones", () => {
+    expect(parseFeedDate("not a date")).toBeUndefined();
+    expect(parseFeedDate("28 Oct 2025 10:00 IST")).toBeUndefined();
+    expect(parseFeedDate("")).toBeUndefined();
+    expect(parseFeedDate(undefined)).toBeUndefined();
+  });
+});
+
+describe("normalizeItemDates", () => {
+  const fetchedAt = new Date("2025-10-29T12:00:00Z");
+  const items = [
+    { guid: "a", pubDate: "2025-10-28T10:00:00Z" },
+    { guid: "b", pubDate: "sometime last week" },
+    { guid: "c" },
+  ];
+
+  it("should rewrite dates as RFC 822 and RFC 3339", () => {
+    const [item] = normalizeItemDates(items, "bottom", fetchedAt);
+    expect(item.pubDate).toBe("Tue, 28 Oct 2025 10:00:00 GMT");
+    expect(item.isoDate).toBe("2025-10-28T10:00:00.000Z");
+  });
+
+  it("should drop undated items", () => {
+    expect(
+      normalizeItemDates(items, "drop", fetchedAt).map((item) => item.guid),
+    ).toEqual(["a"]);
+  });
+
+  it("should keep undated items without a date", () => {
+    const normalized = normalizeItemDates(items, "bottom", fetchedAt);
+    expect(normalized.map((item) => item.pubDate)).toEqual([
+      "Tue, 28 Oct 2025 10:00:00 GMT",
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it("should date undated items with the fetch time", () => {
+    const normalized = normalizeItemDates(items, "fetch_time", fetchedAt);
+    expect(normalized.map((item) => item.isoDate)).toEqual([
+      "2025-10-28T10:00:00.000Z",
+      fetchedAt.toISOString(),
+      fetchedAt.toISOString(),
+    ]);
+  });
+});
+
+describe("compareItemDates", () => {
+  it("should sort newest first with undated items last, in order", () => {
+    const items = [
+      { guid: "undated-1" },
+      { guid: "old", isoDate: "2025-10-01T00:00:00Z" },
+      { guid: "undated-2", pubDate: "garbage" },
+      { guid: "new", pubDate: toRFC822(new Date("2025-10-28T00:00:00Z")) },
+    ];
+    expect(items.sort(compareItemDates).map((item) => item.guid)).toEqual([
+      "new",
+      "old",
+      "undated-1",
+      "undated-2",
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+import type { CustomItem } from "@/lib/types";
+
+// What to do with items whose date is missing or can't be parsed: drop them,
+// list them after every dated item, or date them when their feed was fetched
+export const UNDATED_POLICIES = ["drop", "bottom", "fetch_time"] as const;
+
+export type UndatedPolicy = (typeof UNDATED_POLICIES)[number];
+
+export const DEFAULT_UNDATED_POLICY: UndatedPolicy = "bottom";
+
+// Offsets for the timezone abbreviations feeds use in practice. Ambiguous ones
+// such as IST are left out and make the date unparseable.
+const TIMEZONE_OFFSETS: Record<string, string> = {
+  UT: "+0000",
+  UTC: "+0000",
+  GMT: "+0000",
+  Z: "+0000",
+  EST: "-0500",
+  EDT: "-0400",
+  CST: "-0600",
+  CDT: "-0500",
+  MST: "-0700",
+  MDT: "-0600",
+  PST: "-0800",
+  PDT: "-0700",
+  AKST: "-0900",
+  AKDT: "-0800",
+  HST: "-1000",
+  AST: "-0400",
+  ADT: "-0300",
+  NST: "-0330",
+  NDT: "-0230",
+  WET: "+0000",
+  WEST: "+0100",
+  BST: "+0100",
+  CET: "+0100",
+  CEST: "+0200",
+  MET: "+0100",
+  MEST: "+0200",
+  EET: "+0200",
+  EEST: "+0300",
+  MSK: "+0300",
+  HKT: "+0800",
+  SGT: "+0800",
+  AWST: "+0800",
+  JST: "+0900",
+  KST: "+0900",
+  ACST: "+0930",
+  ACDT: "+1030",
+  AEST: "+1000",
+  AEDT: "+1100",
+  NZST: "+1200",
+  NZDT: "+1300",
+};
+
+const ISO_DATE =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{2}):(\d{2})(?::(\d{2})(\.\d+)?)?)?\s*(Z|[+-]\d{2}:?\d{2})?$/i;
+
+function parseISODate(value: string): Date | undefined {
+  const match = value.match(ISO_DATE);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute, second, fraction, zone] = match;
+  // Dates without an offset are taken to be UTC rather than server-local
+  const offset =
+    !zone || zone.toUpperCase() === "Z"
+      ? "Z"
+      : zone.replace(/^([+-]\d{2}):?(\d{2})$/, "$1:$2");
+  const date = new Date(
+    `${year}-${month}-${day}T${hour ?? "00"}:${minute ?? "00"}:${second ?? "00"}${fraction ?? ""}${offset}`,
+  );
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// Parses the RFC 822 dates RSS calls for, along with the looser formats feeds
+// publish in practice: ISO 8601 with or without an offset, a wrong or missing
+// weekday, ordinal days ("Oct 28th"), two-digit years, dates without a time
+// and timezone abbreviations.
+export function parseFeedDate(value?: string): Date | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const iso = parseISODate(trimmed);
+  if (iso) {
+    return iso;
+  }
+
+  let normalized = trimmed
+    // Weekdays are often wrong, and don't change the date anyway
+    .replace(/^(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,?\s*/i, "")
+    .replace(/(\d)(st|nd|rd|th)\b/gi, "$1")
+    .replace(/\s+/g, " ");
+
+  // "EST", "(PDT)", "GMT+2" and "+05:30" all become a numeric offset
+  normalized = normalized
+    .replace(/\s*\(([a-z]{1,5})\)$/i, " $1")
+    .replace(
+      /\b(?:GMT|UTC?)\s*([+-]\d{1,2})(?::?(\d{2}))?$/i,
+      (_, hours, minutes) =>
+        `${hours[0]}${hours.slice(1).padStart(2, "0")}${minutes ?? "00"}`,
+    )
+    .replace(/([+-]\d{2}):(\d{2})$/, "$1$2")
+    .replace(/\s?\b([a-z]{1,5})$/i, (match, zone) => {
+      const offset = TIMEZONE_OFFSETS[zone.toUpperCase()];
+      return offset ? ` ${offset}` : match;
+    });
+
+  const offsetMatch = normalized.match(/\s?([+-]\d{4})$/);
+  let rest = offsetMatch
+    ? normalized.slice(0, -offsetMatch[0].length)
+    : normalized;
+  // Engines only parse these formats reliably with a time and an offset
+  if (!/\d:\d/.test(rest)) {
+    rest += " 00:00:00";
+  }
+  const date = new Date(`${rest} ${offsetMatch?.[1] ?? "+0000"}`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+// RFC 822 (as updated by RFC 1123), for RSS <pubDate>
+export function toRFC822(date: Date): string {
+  return date.toUTCString();
+}
+
+// RFC 3339, for Atom and JSON Feed
+export function toRFC3339(date: Date): string {
+  return date.toISOString();
+}
+
+// The item's date, whatever format its feed used
+export function itemDate(item: CustomItem): Date | undefined {
+  return parseFeedDate(item.pubDate) ?? parseFeedDate(item.isoDate);
+}
+
+export function parseUndatedPolicy(value: string | null): UndatedPolicy | null {
+  if (!value) {
+    return DEFAULT_UNDATED_POLICY;
+  }
+  return (UNDATED_POLICIES as readonly string[]).includes(value)
+    ? (value as UndatedPolicy)
+    : null;
+}
+
+// Rewrites every item's dates as RFC 822 `pubDate` and RFC 3339 `isoDate`,
+// then applies the undated policy to the ones without a usable date
+export function normalizeItemDates(
+  items: CustomItem[],
+  policy: UndatedPolicy,
+  fetchedAt: Date,
+): CustomItem[] {
+  return items.flatMap((item): CustomItem[] => {
+    const date = itemDate(item) ?? (policy === "fetch_time" ? fetchedAt : null);
+    if (date) {
+      return [{ ...item, pubDate: toRFC822(date), isoDate: toRFC3339(date) }];
+    }
+    if (policy === "drop") {
+      return [];
+    }
+    return [{ ...item, pubDate: undefined, isoDate: undefined }];
+  });
+}
+
+// Newest first; undated items go last, in their original order
+export function compareItemDates(a: CustomItem, b: CustomItem): number {
+  const aTime = itemDate(a)?.getTime();
+  const bTime = itemDate(b)?.getTime();
+  if (aTime === undefined || bTime === undefined) {
+    return (aTime === undefined ? 1 : 0) - (bTime === undefined ? 1 : 0);
+  }
+  return bTime - aTime;
+}
@@ -0,0 +1,135 @@
+import type { CustomItem, FeedSourceRef } from "@/lib/types";
+
+export const DEDUPE_STRATEGIES = ["guid", "link", "title"] as const;
+
+export type DedupeStrategy = (typeof DEDUPE_STRATEGIES)[number];
+
+// Query parameters commonly appended by newsletters and analytics tools; they
+// don't change which story a link points at.
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|mc_cid|mc_eid|ref)$/i;
+
+// Parses the `dedupe` query parameter, e.g. "guid,link" or "all".
+// Returns null if any of the requested strategies is unknown.
+export function parseDedupeStrategies(value: string): DedupeStrategy[] | null {
+  const requested = value
+    .split(",")
+    .map((strategy) => strategy.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (requested.includes("all")) {
+    return [...DEDUPE_STRATEGIES];
+  }
+
+  const strategies: DedupeStrategy[] = [];
+  for (const strategy of requested) {
+    if (!DEDUPE_STRATEGIES.includes(strategy as DedupeStrategy)) {
+      return null;
+    }
+    if (!strategies.includes(strategy as DedupeStrategy)) {
+      strategies.push(strategy as DedupeStrategy);
+    }
+  }
+  return strategies.length > 0 ? strategies : null;
+}
+
+export function canonicalizeLink(link: string): string {
+  try {
+    const url = new URL(link.trim());
+    url.hash = "";
+    url.hostname = url.hostname.toLowerCase().replace(/^www\./, "");
+    for (const key of [...url.searchParams.keys()]) {
+      if (TRACKING_PARAMS.test(key)) {
+        url.searchParams.delete(key);
+      }
+    }
+    url.searchParams.sort();
+    const pathname = url.pathname.replace(/\/+$/, "");
+    // http and https versions of the same page are the same story.
+    return `${url.hostname}${url.port ? `:${url.port}` : ""}${pathname}${url.search}`;
+  } catch {
+    return link.trim();
+  }
+}
+
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+function dedupeKeys(item: CustomItem, strategies: DedupeStrategy[]): string[] {
+  const keys: string[] = [];
+  if (strategies.includes("guid") && item.guid) {
+    keys.push(`guid:${item.guid.trim()}`);
+  }
+  if (strategies.includes("link") && item.link) {
+    keys.push(`link:${canonicalizeLink(item.link)}`);
+  }
+  if (strategies.includes("title") && item.title) {
+    const title = normalizeTitle(item.title);
+    if (title) {
+      keys.push(`title:${title}`);
+    }
+  }
+  return keys;
+}
+
+function itemTime(item: CustomItem): number {
+  const time = new Date(item.isoDate || item.pubDate || "").getTime();
+  // Undated items never win over a dated copy of the same story.
+  return Number.isNaN(time) ? Number.POSITIVE_INFINITY : time;
+}
+
+// Collapses items that represent the same story across sources. The earliest
+// published copy is kept and the sources of the other copies are recorded on
+// it as `duplicateSources`.
+export function dedupeItems(
+  items: CustomItem[],
+  strategies: DedupeStrategy[],
+): CustomItem[] {
+  const ordered = items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => itemTime(a.item) - itemTime(b.item) || a.index - b.index);
+
+  const keptByKey = new Map<string, CustomItem>();
+  const kept: Array<{ item: CustomItem; index: number }> = [];
+
+  for (const { item, index } of ordered) {
+    const keys = dedupeKeys(item, strategies);
+    const original = keys
+      .map((key) => keptByKey.get(key))
+      .find((match) => match !== undefined);
+
+    if (!original) {
+      const copy: CustomItem = { ...item };
+      kept.push({ item: copy, index });
+      for (const key of keys) {
+        keptByKey.set(key, copy);
+      }
+      continue;
+    }
+
+    // Remember the duplicate's keys so later copies that only share a key
+    // with this one still collapse into the original.
+    for (const key of keys) {
+      if (!keptByKey.has(key)) {
+        keptByKey.set(key, original);
+      }
+    }
+
+    if (item.sourceFeedUrl && item.sourceFeedUrl !== original.sourceFeedUrl) {
+      const duplicateSources: FeedSourceRef[] = original.duplicateSources || [];
+      if (!duplicateSources.some(({ url }) => url === item.sourceFeedUrl)) {
+        original.duplicateSources = [
+          ...duplicateSources,
+          { title: item.sourceFeedTitle, url: item.sourceFeedUrl },
+        ];
+      }
+    }
+  }
+
+  return kept.sort((a, b) => a.index - b.index).map(({ item }) => item);
+}
@@ -0,0 +1,82 @@
+import type { FeedFormat } from "@/lib/fetcher";
+import type { CustomItem } from "@/lib/types";
+
+// A source is stale when its newest item is older than this many days
+export const DEFAULT_STALE_DAYS = 30;
+export const MAX_STALE_DAYS = 3650;
+
+// Items from a source that didn't make it into the merged feed, by the stage
+// that dropped them
+export type DroppedItems = {
+  undated: number;
+  filtered: number;
+  outside_window: number;
+  source_limit: number;
+  duplicate: number;
+  total_limit: number;
+};
+
+// What happened to one source during a merge, reported by `format=diagnostics`
+export type SourceDiagnostics = {
+  url: string;
+  // Where the feed was actually fetched from, after redirects and discovery
+  resolved_url: string | null;
+  discovered: boolean;
+  format: FeedFormat | null;
+  status: number | null;
+  cached: boolean;
+  latency_ms: number;
+  // Items the feed published, and how many of them are in the merged feed
+  item_count: number;
+  included_count: number;
+  newest_item: string | null;
+  stale: boolean;
+  error: string | null;
+  error_guid: string | null;
+  dropped: DroppedItems;
+};
+
+export function emptyDroppedItems(): DroppedItems {
+  return {
+    undated: 0,
+    filtered: 0,
+    outside_window: 0,
+    source_limit: 0,
+    duplicate: 0,
+    total_limit: 0,
+  };
+}
+
+// Reads `stale_days`, a whole number of days; throws a RangeError if invalid
+export function parseStaleDays(value: string | null): number {
+  if (!value) {
+    return DEFAULT_STALE_DAYS;
+  }
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_STALE_DAYS) {
+    throw new RangeError(
+      `stale_days must be a whole number of days between 1 and ${MAX_STALE_DAYS}`,
+    );
+  }
+  return days;
+}
+
+// A loaded source with nothing dated in the last `staleDays` days
+export function isStale(
+  newest: Date | null,
+  staleDays: number,
+  now = Date.now(),
+): boolean {
+  return !newest || now - newest.getTime() > staleDays * 24 * 60 * 60 * 1000;
+}
+
+// Counts items per source feed URL
+export function countBySource(items: CustomItem[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    if (item.sourceFeedUrl) {
+      counts.set(item.sourceFeedUrl, (counts.get(item.sourceFeedUrl) || 0) + 1);
+    }
+  }
+  return counts;
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from "bun:test";
+import {
+  digestBucket,
+  digestItems,
+  parseDigestPeriod,
+  parseTimeZone,
+} from "@/lib/digest";
+
+describe("digestBucket", () => {
+  it("should bucket by calendar day in the given timezone", () => {
+    const date = new Date("2025-10-20T23:30:00Z");
+    expect(digestBucket(date, "day", "UTC")).toBe("2025-10-20");
+    expect(digestBucket(date, "day", "Europe/Berlin")).toBe("2025-10-21");
+    expect(digestBucket(date, "day", "America/Los_Angeles")).toBe("2025-10-20");
+  });
+
+  it("should bucket by ISO week", () => {
+    // Monday to Sunday
+    expect(digestBucket(new Date("2025-10-20T12:00:00Z"), "week", "UTC")).toBe(
+      "2025-W43",
+    );
+    expect(digestBucket(new Date("2025-10-26T12:00:00Z"), "week", "UTC")).toBe(
+      "2025-W43",
+    );
+    expect(digestBucket(new Date("2025-10-27T12:00:00Z"), "week", "UTC")).toBe(
+      "2025-W44",
+    );
+  });
+
+  it("should put days around New Year in the year of their ISO week", () => {
+    expect(digestBucket(new Date("2024-12-30T12:00:00Z"), "week", "UTC")).toBe(
+      "2025-W01",
+    );
+    expect(digestBucket(new Date("2021-01-03T12:00:00Z"), "week", "UTC")).toBe(
+      "2020-W53",
+    );
+  });
+
+  it("should use the timezone's week boundary", () => {
+    // Sunday evening in New York is already Monday in UTC
+    const date = new Date("2025-10-27T01:00:00Z");
+    expect(digestBucket(date, "week", "UTC")).toBe("2025-W44");
+    expect(digestBucket(date, "week", "America/New_York")).toBe("2025-W43");
+  });
+});
+
+describe("parseTimeZone", () => {
+  it("should default to UTC and reject unknown zones", () => {
+    expect(parseTimeZone(null)).toBe("UTC");
+    expect(parseTimeZone("Asia/Tokyo")).toBe("Asia/Tokyo");
+    expect(parseTimeZone("Mars/Olympus_Mons")).toBeNull();
+  });
+});
+
+describe("parseDigestPeriod", () => {
+  it("should accept day and week only", () => {
+    expect(parseDigestPeriod("day")).toBe("day");
+    expect(parseDigestPeriod("week")).toBe("week");
+    expect(parseDigestPeriod("month")).toBeNull();
+  });
+});
+
+describe("digestItems", () => {
+  const options = {
+    period: "day" as const,
+    timeZone: "UTC",
+    feedKey: "https://example.com/feed.xml",
+  };
+
+  it("should list every item's title, source and link", () => {
+    const [digest] = digestItems(
+      [
+        {
+          title: "Fish & <Chips>",
+          link: "https://example.com/1",
+          sourceFeedTitle: "Example",
+          isoDate: "2025-10-20T10:00:00Z",
+        },
+        { title: "Unlinked", isoDate: "2025-10-20T09:00:00Z" },
+      ],
+      options,
+    );
+
+    expect(digest.title).toBe("Daily digest for 2025-10-20");
+    expect(digest.isoDate).toBe("2025-10-20T10:00:00.000Z");
+    expect(digest.content).toBe(
+      '<ul><li><a href="https://example.com/1">Fish &amp; &lt;Chips&gt;</a> (Example)</li><li>Unlinked</li></ul>',
+    );
+    expect(digest.contentSnippet).toBe("2 items from Example");
+  });
+
+  it("should leave out undated items", () => {
+    expect(digestItems([{ title: "Undated" }], options)).toEqual([]);
+  });
+
+  it("should give each bucket of each feed its own stable GUID", () => {
+    const item = { title: "A", isoDate: "2025-10-20T10:00:00Z" };
+    const [first] = digestItems([item], options);
+    const [again] = digestItems(
+      [item, { title: "B", isoDate: "2025-10-20T11:00:00Z" }],
+      options,
+    );
+    const [otherFeed] = digestItems([item], {
+      ...options,
+      feedKey: "https://example.org/feed.xml",
+    });
+
+    expect(again.guid).toBe(first.guid);
+    expect(otherFeed.guid).not.toBe(first.guid);
+  });
+});
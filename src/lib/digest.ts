@@ -0,0 +1,174 @@
+import { createHash } from "node:crypto";
+import { itemDate, toRFC822, toRFC3339 } from "@/lib/dates";
+import type { CustomItem } from "@/lib/types";
+
+// Digests replace the merged items with one item per calendar day or ISO week
+export const DIGEST_PERIODS = ["day", "week"] as const;
+
+export type DigestPeriod = (typeof DIGEST_PERIODS)[number];
+
+export const DEFAULT_DIGEST_TIMEZONE = "UTC";
+
+export type DigestOptions = {
+  period: DigestPeriod;
+  // IANA timezone whose calendar days and weeks the items are bucketed by
+  timeZone: string;
+  // Identifies the merged feed, so digests of different feeds get different GUIDs
+  feedKey: string;
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function parseDigestPeriod(value: string): DigestPeriod | null {
+  return (DIGEST_PERIODS as readonly string[]).includes(value)
+    ? (value as DigestPeriod)
+    : null;
+}
+
+// Returns the canonical name of an IANA timezone, or null if it's unknown
+export function parseTimeZone(value: string | null): string | null {
+  if (!value) {
+    return DEFAULT_DIGEST_TIMEZONE;
+  }
+  try {
+    return new Intl.DateTimeFormat("en-US", {
+      timeZone: value,
+    }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+// The calendar date of `date` in `timeZone`, as UTC midnight of that date
+function localDate(date: Date, timeZone: string): Date {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+    })
+      .formatToParts(date)
+      .map(({ type, value }) => [type, Number(value)]),
+  );
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+}
+
+// "2025-10-20" for days, "2025-W43" for ISO weeks
+export function digestBucket(
+  date: Date,
+  period: DigestPeriod,
+  timeZone: string,
+): string {
+  const day = localDate(date, timeZone);
+  if (period === "day") {
+    return day.toISOString().slice(0, 10);
+  }
+  // ISO weeks start on Monday and belong to the year their Thursday is in
+  const thursday = new Date(day);
+  thursday.setUTCDate(day.getUTCDate() + 3 - ((day.getUTCDay() + 6) % 7));
+  const year = thursday.getUTCFullYear();
+  const week = Math.ceil(
+    ((thursday.getTime() - Date.UTC(year, 0, 1)) / 86400000 + 1) / 7,
+  );
+  return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+// The same bucket of the same merged feed always has the same GUID, so readers
+// update a digest as items arrive instead of notifying again
+export function digestGuid(bucket: string, options: DigestOptions): string {
+  const hash = createHash("sha256")
+    .update(`${options.feedKey}\n${options.period}\n${options.timeZone}`)
+    .digest("hex");
+  return `digest-${bucket}-${hash.slice(0, 16)}`;
+}
+
+function digestItem(
+  bucket: string,
+  items: CustomItem[],
+  options: DigestOptions,
+): CustomItem {
+  const newest = items
+    .map((item) => itemDate(item) as Date)
+    .reduce((a, b) => (b > a ? b : a));
+  const sources = [
+    ...new Set(items.map((item) => item.sourceFeedTitle).filter(Boolean)),
+  ];
+  const list = items
+    .map((item) => {
+      const title = escapeHtml(item.title || item.link || "Untitled");
+      const linked = item.link
+        ? `<a href="${escapeHtml(item.link)}">${title}</a>`
+        : title;
+      const source = item.sourceFeedTitle
+        ? ` (${escapeHtml(item.sourceFeedTitle)})`
+        : "";
+      return `<li>${linked}${source}</li>`;
+    })
+    .join("");
+  return {
+    title: `${options.period === "day" ? "Daily" : "Weekly"} digest for ${bucket}`,
+    guid: digestGuid(bucket, options),
+    pubDate: toRFC822(newest),
+    isoDate: toRFC3339(newest),
+    content: `<ul>${list}</ul>`,
+    contentSnippet: `${items.length} item${items.length === 1 ? "" : "s"}${
+      sources.length > 0 ? ` from ${sources.join(", ")}` : ""
+    }`,
+  };
+}
+
+// Replaces merged items with one digest item per bucket, newest bucket first.
+// Items keep their merged order inside a digest; undated items can't be
+// bucketed and are left out.
+export function digestItems(
+  items: CustomItem[],
+  options: DigestOptions,
+): CustomItem[] {
+  const buckets = new Map<string, CustomItem[]>();
+  for (const item of items) {
+    const date = itemDate(item);
+    if (!date) {
+      continue;
+    }
+    const bucket = digestBucket(date, options.period, options.timeZone);
+    const bucketItems = buckets.get(bucket);
+    if (bucketItems) {
+      bucketItems.push(item);
+    } else {
+      buckets.set(bucket, [item]);
+    }
+  }
+  return [...buckets.keys()]
+    .sort()
+    .reverse()
+    .map((bucket) => digestItem(bucket, buckets.get(bucket) ?? [], options));
+}
+
+// The merged items that went into `digests`, for counting what each source
+// contributed to a digest feed
+export function itemsInDigests(
+  items: CustomItem[],
+  digests: CustomItem[],
+  options: DigestOptions,
+): CustomItem[] {
+  const guids = new Set(digests.map((digest) => digest.guid));
+  return items.filter((item) => {
+    const date = itemDate(item);
+    return (
+      date &&
+      guids.has(
+        digestGuid(
+          digestBucket(date, options.period, options.timeZone),
+          options,
+        ),
+      )
+    );
+  });
+}
@@ -0,0 +1,92 @@
+// Feed autodiscovery for when someone pastes a website instead of its feed
+
+export type DiscoveredFeed = {
+  url: string;
+  title?: string;
+  type: string;
+};
+
+const FEED_LINK_TYPES = [
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/feed+json",
+  "application/json",
+];
+
+// Paths probed, in order, when a page doesn't link to its feed
+export const COMMON_FEED_PATHS = [
+  "/feed",
+  "/rss.xml",
+  "/atom.xml",
+  "/feed.xml",
+  "/index.xml",
+  "/rss",
+  "/feed.json",
+];
+
+export function looksLikeHTML(body: string, contentType: string): boolean {
+  return (
+    contentType.includes("text/html") ||
+    contentType.includes("application/xhtml+xml") ||
+    /^\s*(<!doctype html|<html)/i.test(body)
+  );
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, quoted, single, bare] of tag.matchAll(
+    /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g,
+  )) {
+    attributes[name.toLowerCase()] = decodeEntities(quoted ?? single ?? bare);
+  }
+  return attributes;
+}
+
+// Finds <link rel="alternate"> feed links in an HTML page, resolved against
+// the page's <base href> or URL.
+export function findFeedLinks(html: string, pageUrl: string): DiscoveredFeed[] {
+  const head = html.slice(0, 200_000);
+  const baseHref = head.match(/<base\b[^>]*>/i)?.[0];
+  let baseUrl = pageUrl;
+  if (baseHref) {
+    const { href } = parseAttributes(baseHref);
+    try {
+      baseUrl = href ? new URL(href, pageUrl).toString() : pageUrl;
+    } catch {
+      // Keep the page URL
+    }
+  }
+
+  const feeds: DiscoveredFeed[] = [];
+  for (const [tag] of head.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    const rel = (attributes.rel || "").toLowerCase().split(/\s+/);
+    const type = (attributes.type || "").toLowerCase().split(";")[0].trim();
+    if (
+      !rel.includes("alternate") ||
+      !FEED_LINK_TYPES.includes(type) ||
+      !attributes.href
+    ) {
+      continue;
+    }
+
+    try {
+      const url = new URL(attributes.href, baseUrl).toString();
+      if (!feeds.some((feed) => feed.url === url)) {
+        feeds.push({ url, title: attributes.title || undefined, type });
+      }
+    } catch {
+      // Skip unparseable hrefs
+    }
+  }
+  return feeds;
+}
@@ -0,0 +1,55 @@
+import { createHash } from "node:crypto";
+import type { FeedFailure } from "@/lib/types";
+
+// How sources that failed to load are reported: as items at the top of the
+// feed, only in response headers and a diagnostics block, or not at all
+export const ERROR_MODES = ["inline", "headers", "silent"] as const;
+
+export type ErrorMode = (typeof ERROR_MODES)[number];
+
+export const DEFAULT_ERROR_MODE: ErrorMode = "inline";
+
+// Namespace of the diagnostics block in RSS and Atom output
+export const DIAGNOSTICS_NAMESPACE = "https://rssrssrssrss.com/ns/diagnostics";
+
+const MAX_REMEMBERED_ERRORS = 500;
+
+// When this server first saw each error, so an error item keeps its date for
+// as long as the error lasts
+const firstSeen = new Map<string, number>();
+
+export function parseErrorMode(value: string | null): ErrorMode | null {
+  if (!value) {
+    return DEFAULT_ERROR_MODE;
+  }
+  return (ERROR_MODES as readonly string[]).includes(value)
+    ? (value as ErrorMode)
+    : null;
+}
+
+// The same source failing with the same error always gets the same GUID, so
+// readers show one error item rather than a new one on every poll
+export function errorGuid(url: string, error: string): string {
+  const hash = createHash("sha256").update(`${url}\n${error}`).digest("hex");
+  return `error-${hash.slice(0, 32)}`;
+}
+
+export function errorFirstSeen(guid: string, now = Date.now()): Date {
+  let seen = firstSeen.get(guid);
+  if (seen === undefined) {
+    seen = now;
+    firstSeen.set(guid, seen);
+    if (firstSeen.size > MAX_REMEMBERED_ERRORS) {
+      const oldest = firstSeen.keys().next().value;
+      if (oldest !== undefined) {
+        firstSeen.delete(oldest);
+      }
+    }
+  }
+  return new Date(seen);
+}
+
+export function describeFailure(url: string, error: string): FeedFailure {
+  const guid = errorGuid(url, error);
+  return { url, error, guid, since: errorFirstSeen(guid).toISOString() };
+}
@@ -0,0 +1,528 @@
+import type { CacheEntry, UpstreamCache } from "@/lib/cache";
+import {
+  COMMON_FEED_PATHS,
+  findFeedLinks,
+  looksLikeHTML,
+} from "@/lib/discovery";
+import { imageFromJSONFeed, imageFromRSS } from "@/lib/media";
+import { enclosuresFromJSONFeed, enclosuresFromRSS } from "@/lib/podcast";
+import { BlockedUrlError, assertUrlAllowed, getPinnedAgent } from "@/lib/ssrf";
+import type { CustomFeed, CustomItem, JSONFeed } from "@/lib/types";
+import Parser from "rss-parser";
+import { type Response, fetch } from "undici";
+
+const parser = new Parser({
+  customFields: {
+    item: [
+      ["content:encoded", "content"],
+      ["dc:creator", "creator"],
+      ["media:content", "mediaContents", { keepArray: true }],
+      ["media:thumbnail", "mediaThumbnails", { keepArray: true }],
+      ["media:group", "mediaGroup"],
+    ],
+  },
+});
+
+export type FeedFormat = "rss" | "atom" | "rdf" | "jsonfeed";
+
+export type FetchedFeed = {
+  feed: CustomFeed;
+  format: FeedFormat;
+  status: number;
+  // Whether the feed came from the upstream cache (fresh or revalidated)
+  cached: boolean;
+  // Where the feed was fetched from, after redirects and autodiscovery
+  url: string;
+  // Whether the requested URL was a web page whose feed had to be discovered
+  discovered: boolean;
+  // When the feed was last fetched from upstream
+  fetchedAt: Date;
+};
+
+export type FetchOptions = {
+  cache?: UpstreamCache | null;
+  // Seconds a cached feed is served without contacting upstream
+  cacheTTL?: number;
+  // Milliseconds each attempt may take, body included
+  timeout?: number;
+  // Extra attempts after a 5xx response or a network error
+  retries?: number;
+  // Largest body we're willing to read
+  maxBytes?: number;
+  // Aborts every attempt, e.g. when the overall request deadline passes
+  signal?: AbortSignal;
+  // Look for the feed of HTML pages (on by default)
+  discover?: boolean;
+};
+
+export const DEFAULT_FETCH_TIMEOUT_MS = 10_000;
+export const DEFAULT_FETCH_RETRIES = 2;
+export const DEFAULT_MAX_FEED_BYTES = 5 * 1024 * 1024;
+export const DEFAULT_REQUEST_DEADLINE_MS = 25_000;
+const RETRY_BASE_DELAY_MS = 250;
+const MAX_REDIRECTS = 5;
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+// Fetch limits, overridable through FETCH_TIMEOUT_MS, FETCH_RETRIES,
+// FETCH_MAX_BYTES and REQUEST_DEADLINE_MS.
+export function getFetchLimits() {
+  return {
+    timeout: numberFromEnv("FETCH_TIMEOUT_MS", DEFAULT_FETCH_TIMEOUT_MS),
+    retries: numberFromEnv("FETCH_RETRIES", DEFAULT_FETCH_RETRIES),
+    maxBytes: numberFromEnv("FETCH_MAX_BYTES", DEFAULT_MAX_FEED_BYTES),
+    deadline: numberFromEnv("REQUEST_DEADLINE_MS", DEFAULT_REQUEST_DEADLINE_MS),
+  };
+}
+
+const ACCEPT =
+  "application/rss+xml, application/atom+xml, application/feed+json, application/xml;q=0.9, application/json;q=0.9, text/xml;q=0.9, */*;q=0.8";
+
+// Works out what kind of feed a body is from its content type and the start
+// of the body. Returns null if it doesn't look like a feed at all.
+export function detectFeedFormat(
+  body: string,
+  contentType: string,
+): FeedFormat | null {
+  const start = body.replace(/^\uFEFF/, "").trimStart();
+
+  if (
+    start.startsWith("{") ||
+    contentType.includes("application/feed+json") ||
+    contentType.includes("application/json")
+  ) {
+    try {
+      const data = JSON.parse(start);
+      return typeof data?.version === "string" &&
+        data.version.includes("jsonfeed.org")
+        ? "jsonfeed"
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Skip the XML declaration, comments, doctypes and processing instructions
+  // to find the root element.
+  const root = start
+    .slice(0, 2048)
+    .replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<![^>]*>/g, "")
+    .trimStart()
+    .match(/^<([\w:.-]+)/)?.[1];
+
+  switch (root?.toLowerCase()) {
+    case "rss":
+      return "rss";
+    case "feed":
+      return "atom";
+    case "rdf:rdf":
+    case "rdf":
+      return "rdf";
+    default:
+      return null;
+  }
+}
+
+function parseJSONFeed(body: string): CustomFeed {
+  const jsonFeed: JSONFeed = JSON.parse(body);
+
+  // Convert JSON Feed items to CustomItem format
+  const items: CustomItem[] = (jsonFeed.items || []).map((item) => ({
+    title: item.title,
+    link: item.url || item.external_url,
+    pubDate: item.date_published,
+    content: item.content_html,
+    contentSnippet: item.content_text || item.summary,
+    creator: item.author?.name,
+    isoDate: item.date_published,
+    guid: item.id,
+    categories: item.tags,
+    enclosures: enclosuresFromJSONFeed(item),
+    image: imageFromJSONFeed(item),
+  }));
+
+  return {
+    title: jsonFeed.title,
+    description: jsonFeed.description,
+    link: jsonFeed.home_page_url,
+    items,
+  };
+}
+
+// rss-parser returns <category domain="…">Foo</category> as { _: "Foo", $: … }
+function categoryNames(
+  categories: unknown[] | undefined,
+): string[] | undefined {
+  return categories
+    ?.map((category) =>
+      typeof category === "string"
+        ? category
+        : (category as { _?: unknown } | null)?._,
+    )
+    .filter((name): name is string => typeof name === "string");
+}
+
+async function parseXMLFeed(body: string): Promise<CustomFeed> {
+  const feed = (await parser.parseString(body)) as CustomFeed;
+  // rss-parser ignores xml:base, which relative URLs in content resolve against.
+  // Only the root and channel start tags are searched: scanning the whole body
+  // for them takes quadratic time on an unclosed "<feed " repeated in CDATA.
+  const xmlBase = body
+    .replace(/^\uFEFF/, "")
+    .trimStart()
+    .slice(0, 2048)
+    .replace(/<\?[\s\S]*?\?>|<!--[\s\S]*?-->|<![^>]*>/g, "")
+    .match(
+      /<(?:feed|rss|channel|rdf:RDF)\b[^>]*?\sxml:base\s*=\s*(?:"([^"]*)"|'([^']*)')/,
+    );
+  return {
+    ...feed,
+    xmlBase: xmlBase ? (xmlBase[1] ?? xmlBase[2]) : undefined,
+    items: feed.items.map(
+      ({ mediaContents, mediaThumbnails, mediaGroup, ...item }) => {
+        const enclosures = enclosuresFromRSS(item);
+        return {
+          ...item,
+          categories: categoryNames(item.categories),
+          enclosures,
+          image: imageFromRSS({
+            ...item,
+            enclosures,
+            mediaContents,
+            mediaThumbnails,
+            mediaGroup,
+          }),
+        };
+      },
+    ),
+  };
+}
+
+async function readCache(cache: UpstreamCache | null | undefined, url: string) {
+  try {
+    return await cache?.get(url);
+  } catch (error) {
+    console.error(`Error reading cached feed for ${url}:`, error);
+    return undefined;
+  }
+}
+
+async function writeCache(
+  cache: UpstreamCache | null | undefined,
+  url: string,
+  entry: CacheEntry,
+) {
+  try {
+    await cache?.set(url, entry);
+  } catch (error) {
+    console.error(`Error caching feed for ${url}:`, error);
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true },
+    );
+  });
+}
+
+// Upstream answered with an error status; keeps the status and the URL it
+// came from, after redirects, for diagnostics
+export class UpstreamStatusError extends Error {
+  constructor(
+    readonly status: number,
+    readonly url: string,
+  ) {
+    super(`Status code ${status}`);
+    this.name = "UpstreamStatusError";
+  }
+}
+
+class ResponseTooLargeError extends Error {
+  constructor(maxBytes: number) {
+    super(`Response is larger than the ${maxBytes} byte limit`);
+    this.name = "ResponseTooLargeError";
+  }
+}
+
+// Reads the body as UTF-8 text, giving up as soon as it grows past maxBytes
+async function readBody(response: Response, maxBytes: number): Promise<string> {
+  if (Number(response.headers.get("content-length")) > maxBytes) {
+    await response.body?.cancel();
+    throw new ResponseTooLargeError(maxBytes);
+  }
+  if (!response.body) {
+    return "";
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let received = 0;
+  let text = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new ResponseTooLargeError(maxBytes);
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+// Follows redirects by hand so that every hop goes through the URL policy
+async function fetchFollowingRedirects(
+  url: string,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+): Promise<{ response: Response; url: string }> {
+  let currentUrl = url;
+  for (let redirects = 0; ; redirects++) {
+    await assertUrlAllowed(currentUrl, undefined, signal);
+    // The pinned agent re-checks the addresses it connects to
+    const response = await fetch(currentUrl, {
+      headers,
+      signal,
+      redirect: "manual",
+      dispatcher: getPinnedAgent(),
+    });
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: currentUrl };
+    }
+    await response.body?.cancel();
+    if (redirects >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects (more than ${MAX_REDIRECTS})`);
+    }
+    currentUrl = new URL(location, currentUrl).toString();
+  }
+}
+
+type Attempt = {
+  response: Response;
+  body: string | null;
+  // Where the body was finally fetched from, after redirects
+  url: string;
+};
+
+// Runs a request with a per-attempt timeout, retrying 5xx responses and
+// network errors with exponential backoff. 304s come back without a body.
+async function fetchWithRetries(
+  url: string,
+  headers: Record<string, string>,
+  {
+    timeout = DEFAULT_FETCH_TIMEOUT_MS,
+    retries = DEFAULT_FETCH_RETRIES,
+    maxBytes = DEFAULT_MAX_FEED_BYTES,
+    signal,
+  }: FetchOptions,
+): Promise<Attempt> {
+  for (let attempt = 0; ; attempt++) {
+    const attemptSignal = signal
+      ? AbortSignal.any([signal, AbortSignal.timeout(timeout)])
+      : AbortSignal.timeout(timeout);
+
+    try {
+      const { response, url: finalUrl } = await fetchFollowingRedirects(
+        url,
+        headers,
+        attemptSignal,
+      );
+      if (response.status >= 500 && attempt < retries) {
+        await response.body?.cancel();
+      } else if (!response.ok) {
+        await response.body?.cancel();
+        return { response, body: null, url: finalUrl };
+      } else {
+        return {
+          response,
+          body: await readBody(response, maxBytes),
+          url: finalUrl,
+        };
+      }
+    } catch (caught) {
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      // fetch wraps connection errors, including the pinned lookup's refusals
+      const error =
+        caught instanceof Error && caught.cause instanceof BlockedUrlError
+          ? caught.cause
+          : caught;
+      // Anything else is a timeout or a network error, which may be transient
+      if (
+        error instanceof ResponseTooLargeError ||
+        error instanceof BlockedUrlError ||
+        attempt >= retries
+      ) {
+        throw attemptSignal.aborted
+          ? new Error(`Timed out after ${timeout}ms`)
+          : error;
+      }
+    }
+
+    await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt, signal);
+  }
+}
+
+// Fetches a feed at most once and hands the body to the parser matching its
+// format (RSS, Atom and RDF go through rss-parser, JSON Feed is mapped here).
+// With a cache, fresh entries skip the network entirely and stale ones are
+// revalidated with If-None-Match/If-Modified-Since.
+export async function fetchFeed(
+  url: string,
+  options: FetchOptions = {},
+): Promise<FetchedFeed> {
+  const { cache, cacheTTL = 0 } = options;
+  await assertUrlAllowed(url, undefined, options.signal);
+
+  const entry = await readCache(cache, url);
+  if (entry && "discoveredUrl" in entry) {
+    try {
+      const fetched = await fetchFeed(entry.discoveredUrl, {
+        ...options,
+        discover: false,
+      });
+      return { ...fetched, discovered: true };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+      // The page may have moved its feed, so look for it again
+    }
+  }
+  const cached = entry && "feed" in entry ? entry : undefined;
+  if (cached && Date.now() - cached.storedAt < cacheTTL * 1000) {
+    return {
+      feed: cached.feed,
+      format: cached.format,
+      status: 200,
+      cached: true,
+      url,
+      discovered: false,
+      fetchedAt: new Date(cached.storedAt),
+    };
+  }
+
+  const headers: Record<string, string> = { Accept: ACCEPT };
+  if (cached?.etag) {
+    headers["If-None-Match"] = cached.etag;
+  }
+  if (cached?.lastModified) {
+    headers["If-Modified-Since"] = cached.lastModified;
+  }
+
+  const {
+    response,
+    body,
+    url: finalUrl,
+  } = await fetchWithRetries(url, headers, options);
+  if (response.status === 304 && cached) {
+    await writeCache(cache, url, { ...cached, storedAt: Date.now() });
+    return {
+      feed: cached.feed,
+      format: cached.format,
+      status: 304,
+      cached: true,
+      url: finalUrl,
+      discovered: false,
+      fetchedAt: new Date(),
+    };
+  }
+  if (body === null) {
+    throw new UpstreamStatusError(response.status, finalUrl);
+  }
+
+  const contentType = response.headers.get("content-type") || "";
+  const format = detectFeedFormat(body, contentType);
+  if (!format) {
+    if (options.discover !== false && looksLikeHTML(body, contentType)) {
+      const discovered = await discoverFeed(finalUrl, body, options);
+      await writeCache(cache, url, {
+        discoveredUrl: discovered.url,
+        storedAt: Date.now(),
+      });
+      return discovered;
+    }
+    throw new Error("Response is not an RSS, Atom, RDF or JSON feed");
+  }
+
+  const feed: CustomFeed =
+    format === "jsonfeed" ? parseJSONFeed(body) : await parseXMLFeed(body);
+
+  const etag = response.headers.get("etag") || undefined;
+  const lastModified = response.headers.get("last-modified") || undefined;
+  // Without validators or a TTL an entry could never be reused
+  if (etag || lastModified || cacheTTL > 0) {
+    await writeCache(cache, url, {
+      etag,
+      lastModified,
+      feed,
+      format,
+      storedAt: Date.now(),
+    });
+  }
+
+  return {
+    feed,
+    format,
+    status: response.status,
+    cached: false,
+    url: finalUrl,
+    discovered: false,
+    fetchedAt: new Date(),
+  };
+}
+
+// Finds the feed behind an HTML page: first the feeds it links to with
+// <link rel="alternate">, then the usual feed paths at the site root.
+async function discoverFeed(
+  pageUrl: string,
+  html: string,
+  options: FetchOptions,
+): Promise<FetchedFeed> {
+  const candidates = [
+    ...findFeedLinks(html, pageUrl).map((feed) => feed.url),
+    ...COMMON_FEED_PATHS.map((path) => new URL(path, pageUrl).toString()),
+  ];
+
+  for (const candidate of [...new Set(candidates)]) {
+    try {
+      const fetched = await fetchFeed(candidate, {
+        ...options,
+        discover: false,
+        retries: 0,
+      });
+      return { ...fetched, discovered: true };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error(
+    "This is a web page, and no feed was found in its links or at the usual feed paths",
+  );
+}
@@ -0,0 +1,85 @@
+import {
+  FILTER_FIELDS,
+  type FilterField,
+  type FilterRule,
+  compileFilterRegex,
+} from "@/lib/config";
+import type { CustomItem } from "@/lib/types";
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, " ");
+}
+
+function fieldValues(item: CustomItem, field: FilterField): string[] {
+  switch (field) {
+    case "categories":
+      return item.categories || [];
+    case "content":
+      // Match against the text rather than markup such as class names
+      return item.content ? [stripTags(item.content)] : [];
+    default:
+      return item[field] ? [item[field] as string] : [];
+  }
+}
+
+// A rule with its pattern compiled once, ready to run against every item
+type CompiledRule = {
+  action: FilterRule["action"];
+  fields: readonly FilterField[];
+  matches: (value: string) => boolean;
+};
+
+function compileRule(rule: FilterRule): CompiledRule {
+  const fields = rule.fields || FILTER_FIELDS;
+  if (rule.regex) {
+    const regex = compileFilterRegex(rule.pattern);
+    return {
+      action: rule.action,
+      fields,
+      matches: (value) => regex.test(value),
+    };
+  }
+  const keyword = rule.pattern.toLowerCase();
+  return {
+    action: rule.action,
+    fields,
+    matches: (value) => value.toLowerCase().includes(keyword),
+  };
+}
+
+function ruleMatches(item: CustomItem, rule: CompiledRule): boolean {
+  return rule.fields.some((field) =>
+    fieldValues(item, field).some(rule.matches),
+  );
+}
+
+// An item passes a set of rules if it matches none of the excludes and, when
+// there are includes, at least one of them.
+function passesRules(item: CustomItem, rules: CompiledRule[]): boolean {
+  const includes = rules.filter((rule) => rule.action === "include");
+  const excludes = rules.filter((rule) => rule.action === "exclude");
+
+  if (excludes.some((rule) => ruleMatches(item, rule))) {
+    return false;
+  }
+  return (
+    includes.length === 0 || includes.some((rule) => ruleMatches(item, rule))
+  );
+}
+
+// Applies each scope of rules (e.g. global, then per-source) in turn; an item
+// has to pass all of them to be kept.
+export function filterItems(
+  items: CustomItem[],
+  scopes: Array<FilterRule[] | undefined>,
+): CustomItem[] {
+  const activeScopes = scopes
+    .filter((rules): rules is FilterRule[] => !!rules && rules.length > 0)
+    .map((rules) => rules.map(compileRule));
+  if (activeScopes.length === 0) {
+    return items;
+  }
+  return items.filter((item) =>
+    activeScopes.every((rules) => passesRules(item, rules)),
+  );
+}
@@ -0,0 +1,106 @@
+// Server-side bounds on how much a single merged feed may contain
+export const DEFAULT_ITEM_LIMIT = 100;
+export const MAX_ITEM_LIMIT = 500;
+export const MAX_AGE_LIMIT_SECONDS = 365 * 24 * 60 * 60;
+
+export type MergeLimits = {
+  // Total number of items in the merged feed
+  limit: number;
+  // Maximum number of items taken from any one source
+  perSource?: number;
+  // Items published before this date are dropped
+  since?: Date;
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+function parsePositiveInteger(value: string, name: string, max: number) {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new RangeError(`${name} must be a positive integer`);
+  }
+  if (number > max) {
+    throw new RangeError(`${name} must be at most ${max}`);
+  }
+  return number;
+}
+
+// Parses durations such as "90m", "12h", "7d" or "2w"; bare numbers are seconds.
+function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)\s*([smhdw]?)$/i);
+  if (!match) {
+    throw new RangeError(
+      'max_age must be a duration such as "12h", "7d" or "2w"',
+    );
+  }
+  const seconds =
+    Number(match[1]) * DURATION_UNITS[(match[2] || "s").toLowerCase()];
+  if (seconds < 1 || seconds > MAX_AGE_LIMIT_SECONDS) {
+    throw new RangeError(
+      `max_age must be between 1 second and ${MAX_AGE_LIMIT_SECONDS / 86400} days`,
+    );
+  }
+  return seconds;
+}
+
+// Reads the `limit`, `per_source`, `since` and `max_age` query parameters.
+// Throws a RangeError describing the first invalid one.
+export function parseMergeLimits(
+  searchParams: URLSearchParams,
+  now = new Date(),
+): MergeLimits {
+  const limitParam = searchParams.get("limit");
+  const perSourceParam = searchParams.get("per_source");
+  const sinceParam = searchParams.get("since");
+  const maxAgeParam = searchParams.get("max_age");
+
+  const limits: MergeLimits = {
+    limit: limitParam
+      ? parsePositiveInteger(limitParam, "limit", MAX_ITEM_LIMIT)
+      : DEFAULT_ITEM_LIMIT,
+  };
+
+  if (perSourceParam) {
+    limits.perSource = parsePositiveInteger(
+      perSourceParam,
+      "per_source",
+      MAX_ITEM_LIMIT,
+    );
+  }
+
+  if (sinceParam) {
+    const since = new Date(sinceParam);
+    if (Number.isNaN(since.getTime())) {
+      throw new RangeError("since must be a date, e.g. 2025-01-31");
+    }
+    limits.since = since;
+  }
+
+  if (maxAgeParam) {
+    const cutoff = new Date(now.getTime() - parseDuration(maxAgeParam) * 1000);
+    // When both are given, the more recent cutoff wins
+    if (!limits.since || cutoff > limits.since) {
+      limits.since = cutoff;
+    }
+  }
+
+  return limits;
+}
+
+// Summarizes the effective limits for the X-Merge-Limits response header
+export function describeMergeLimits(limits: MergeLimits): string {
+  const parts = [`limit=${limits.limit}`];
+  if (limits.perSource) {
+    parts.push(`per_source=${limits.perSource}`);
+  }
+  if (limits.since) {
+    parts.push(`since=${limits.since.toISOString()}`);
+  }
+  return parts.join("; ");
+}
@@ -0,0 +1,63 @@
+import { isTrackingPixel } from "@/lib/transforms";
+import type { CustomItem, JSONFeedItem } from "@/lib/types";
+
+export const MEDIA_NAMESPACE = "http://search.yahoo.com/mrss/";
+
+// A media:content or media:thumbnail element as rss-parser (xml2js) hands it
+// over: attributes under `$`, nested elements as arrays.
+type MediaElement = {
+  $?: { url?: string; medium?: string; type?: string };
+  "media:thumbnail"?: MediaElement[];
+  "media:content"?: MediaElement[];
+};
+
+function isImage(element: MediaElement): boolean {
+  const { medium, type } = element.$ || {};
+  return medium === "image" || !!type?.startsWith("image/");
+}
+
+function firstUrl(elements: MediaElement[] | undefined): string | undefined {
+  return elements?.find((element) => element?.$?.url)?.$?.url;
+}
+
+function imageFromMedia(
+  thumbnails: MediaElement[] | undefined,
+  contents: MediaElement[] | undefined,
+): string | undefined {
+  return (
+    firstUrl(thumbnails) ||
+    firstUrl(contents?.filter(isImage)) ||
+    // Video and audio media:content often carry their own thumbnail
+    firstUrl(contents?.flatMap((content) => content["media:thumbnail"] || []))
+  );
+}
+
+// The first <img src> in an item's HTML that isn't a tracking pixel. The merge
+// falls back to this once transforms and the sanitizer have run on the content.
+export function firstImageInContent(html?: string): string | undefined {
+  for (const tag of html?.match(/<img\b[^>]*>/gi) || []) {
+    const match = tag.match(/\bsrc\s*=\s*(?:"([^"]+)"|'([^']+)')/i);
+    if (match && !isTrackingPixel(tag)) {
+      return (match[1] ?? match[2]).replace(/&amp;/g, "&");
+    }
+  }
+  return undefined;
+}
+
+// Picks one image for an RSS, Atom or RDF item from its metadata, in order of
+// preference: media:thumbnail, an image media:content (also inside
+// media:group), itunes:image and an image enclosure.
+export function imageFromRSS(item: CustomItem): string | undefined {
+  const group: MediaElement | undefined = item.mediaGroup;
+  return (
+    imageFromMedia(item.mediaThumbnails, item.mediaContents) ||
+    imageFromMedia(group?.["media:thumbnail"], group?.["media:content"]) ||
+    item.itunes?.image ||
+    item.enclosures?.find((enclosure) => enclosure.type?.startsWith("image/"))
+      ?.url
+  );
+}
+
+export function imageFromJSONFeed(item: JSONFeedItem): string | undefined {
+  return item.image || item.banner_image;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from "bun:test";
+import { parseOPML } from "@/lib/opml";
+import { DOMParser } from "linkedom";
+
+// Bun has no DOMParser of its own
+const parse = (xml: string) =>
+  parseOPML(xml, new DOMParser() as unknown as globalThis.DOMParser);
+
+describe("parseOPML", () => {
+  it("should flatten nested folders and keep outline titles", () => {
+    const { feeds, errors } = parse(
+      `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head><title>Subscriptions</title></head>
+  <body>
+    <outline type="rss" text="Julia Evans" xmlUrl="https://jvns.ca/atom.xml" />
+    <outline text="Tech">
+      <outline text="News">
+        <outline type="rss" title="Hacker News" text="HN" xmlUrl="https://hnrss.org/frontpage" />
+      </outline>
+      <outline type="rss" xmlUrl="https://overreacted.io/rss.xml" />
+    </outline>
+  </body>
+</opml>`,
+    );
+
+    expect(feeds).toEqual([
+      { url: "https://jvns.ca/atom.xml", title: "Julia Evans" },
+      { url: "https://hnrss.org/frontpage", title: "Hacker News" },
+      { url: "https://overreacted.io/rss.xml", title: undefined },
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  it("should report each outline it can't import, with its folder path", () => {
+    const { feeds, errors } = parse(`<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <body>
+    <outline text="Tech">
+      <outline text="Broken" xmlUrl="javascript:alert(1)" />
+      <outline text="Empty" />
+      <outline text="Blog" xmlUrl="https://example.com/feed.xml" />
+      <outline text="Blog again" xmlUrl="https://example.com/feed.xml" />
+    </outline>
+  </body>
+</opml>`);
+
+    expect(feeds).toEqual([
+      { url: "https://example.com/feed.xml", title: "Blog" },
+    ]);
+    expect(errors).toEqual([
+      {
+        entry: "Tech / Broken",
+        reason: "Invalid feed URL: javascript:alert(1)",
+      },
+      { entry: "Tech / Empty", reason: "Outline has no xmlUrl" },
+      { entry: "Tech / Blog again", reason: "Duplicate of an earlier feed" },
+    ]);
+  });
+
+  it("should reject documents that aren't OPML", () => {
+    expect(parse("<html><body>Not OPML</body></html>").errors).toEqual([
+      { entry: "OPML", reason: "Not a valid OPML document" },
+    ]);
+    expect(parse('<opml version="2.0"><head /></opml>').errors).toEqual([
+      { entry: "OPML", reason: "Document has no <body>" },
+    ]);
+  });
+});
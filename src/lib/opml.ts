@@ -0,0 +1,106 @@
+import { type FeedConfig, enabledSources } from "@/lib/config";
+
+export type OPMLImport = {
+  feeds: Array<{ url: string; title?: string }>;
+  // Outlines that couldn't be imported, with the reason why
+  errors: Array<{ entry: string; reason: string }>;
+};
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Lists the enabled sources of a merged feed as an OPML 2.0 subscription list
+export function generateOPML(
+  config: FeedConfig,
+  { title, ownerUrl }: { title: string; ownerUrl?: string },
+): string {
+  const outlines = enabledSources(config)
+    .map((source) => {
+      const text = escapeAttribute(source.title || source.url);
+      return `    <outline type="rss" text="${text}" title="${text}" xmlUrl="${escapeAttribute(
+        source.url,
+      )}" />\n`;
+    })
+    .join("");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<opml version="2.0">
+  <head>
+    <title>${escapeAttribute(title)}</title>
+    <dateCreated>${new Date().toUTCString()}</dateCreated>
+${ownerUrl ? `    <ownerId>${escapeAttribute(ownerUrl)}</ownerId>\n` : ""}  </head>
+  <body>
+${outlines}  </body>
+</opml>`;
+}
+
+function isFeedUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+// Reads the feeds out of an OPML document, flattening nested folders. Runs in
+// the browser, where DOMParser is available; elsewhere, pass a parser in.
+export function parseOPML(
+  xml: string,
+  parser: Pick<DOMParser, "parseFromString"> = new DOMParser(),
+): OPMLImport {
+  const result: OPMLImport = { feeds: [], errors: [] };
+  const doc = parser.parseFromString(xml, "text/xml");
+
+  if (doc.querySelector("parsererror") || !doc.querySelector("opml")) {
+    result.errors.push({ entry: "OPML", reason: "Not a valid OPML document" });
+    return result;
+  }
+  const body = doc.querySelector("opml > body");
+  if (!body) {
+    result.errors.push({ entry: "OPML", reason: "Document has no <body>" });
+    return result;
+  }
+
+  const visit = (outline: Element, folders: string[]) => {
+    const title =
+      outline.getAttribute("title")?.trim() ||
+      outline.getAttribute("text")?.trim() ||
+      undefined;
+    const label = title || outline.getAttribute("xmlUrl") || "Untitled outline";
+    const entry = [...folders, label].join(" / ");
+    const children = Array.from(outline.children).filter(
+      (child) => child.tagName === "outline",
+    );
+    const xmlUrl = outline.getAttribute("xmlUrl")?.trim();
+
+    if (xmlUrl) {
+      if (!isFeedUrl(xmlUrl)) {
+        result.errors.push({ entry, reason: `Invalid feed URL: ${xmlUrl}` });
+      } else if (result.feeds.some((feed) => feed.url === xmlUrl)) {
+        result.errors.push({ entry, reason: "Duplicate of an earlier feed" });
+      } else {
+        result.feeds.push({ url: xmlUrl, title });
+      }
+    } else if (children.length === 0) {
+      result.errors.push({ entry, reason: "Outline has no xmlUrl" });
+    }
+
+    // Outlines without an xmlUrl are folders; some readers nest feeds in
+    // feeds too, so children are always visited.
+    for (const child of children) {
+      visit(child, xmlUrl ? folders : [...folders, label]);
+    }
+  };
+
+  for (const outline of Array.from(body.children)) {
+    if (outline.tagName === "outline") {
+      visit(outline, []);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,108 @@
+import { compareItemDates } from "@/lib/dates";
+import type { CustomItem } from "@/lib/types";
+
+// How the merged feed is ordered: strictly by date, taking turns between
+// sources, taking turns in proportion to each source's weight, or all of one
+// source followed by the next
+export const ORDERINGS = [
+  "date",
+  "round_robin",
+  "weighted",
+  "grouped",
+] as const;
+
+export type Ordering = (typeof ORDERINGS)[number];
+
+export const DEFAULT_ORDERING: Ordering = "date";
+
+// A source of the merged feed, in config order
+export type OrderedSource = {
+  url: string;
+  weight?: number;
+};
+
+export function parseOrdering(value: string | null): Ordering | null {
+  if (!value) {
+    return DEFAULT_ORDERING;
+  }
+  return (ORDERINGS as readonly string[]).includes(value)
+    ? (value as Ordering)
+    : null;
+}
+
+// Each source's items, newest first, in the order the sources were configured.
+// Items from a source that isn't listed come last, in a group of their own.
+function groupBySource(
+  items: CustomItem[],
+  sources: OrderedSource[],
+): { weight: number; items: CustomItem[] }[] {
+  const groups = new Map<string, { weight: number; items: CustomItem[] }>();
+  for (const source of sources) {
+    if (!groups.has(source.url)) {
+      groups.set(source.url, { weight: source.weight ?? 1, items: [] });
+    }
+  }
+  for (const item of items) {
+    const url = item.sourceFeedUrl ?? "";
+    let group = groups.get(url);
+    if (!group) {
+      group = { weight: 1, items: [] };
+      groups.set(url, group);
+    }
+    group.items.push(item);
+  }
+  return [...groups.values()]
+    .filter((group) => group.items.length > 0)
+    .map((group) => ({ ...group, items: group.items.sort(compareItemDates) }));
+}
+
+// Smooth weighted round-robin: every turn, each source with items left gains
+// its weight in credit and the one with the most credit goes next, paying back
+// the total. Equal weights give plain round-robin.
+function interleave(
+  groups: { weight: number; items: CustomItem[] }[],
+): CustomItem[] {
+  const queues = groups.map((group) => ({
+    weight: group.weight,
+    items: [...group.items],
+    credit: 0,
+  }));
+  const ordered: CustomItem[] = [];
+  let active = queues.filter((queue) => queue.items.length > 0);
+  while (active.length > 0) {
+    const total = active.reduce((sum, queue) => sum + queue.weight, 0);
+    let next = active[0];
+    for (const queue of active) {
+      queue.credit += queue.weight;
+      if (queue.credit > next.credit) {
+        next = queue;
+      }
+    }
+    next.credit -= total;
+    ordered.push(next.items.shift() as CustomItem);
+    active = active.filter((queue) => queue.items.length > 0);
+  }
+  return ordered;
+}
+
+// Orders the merged items. Every strategy but `date` keeps each source's items
+// newest first and only decides how the sources are interleaved, so a source
+// with broken dates can't jump ahead of the others.
+export function orderItems(
+  items: CustomItem[],
+  ordering: Ordering,
+  sources: OrderedSource[],
+): CustomItem[] {
+  switch (ordering) {
+    case "date":
+      return [...items].sort(compareItemDates);
+    case "round_robin":
+      return interleave(
+        groupBySource(items, sources).map((group) => ({ ...group, weight: 1 })),
+      );
+    case "weighted":
+      return interleave(groupBySource(items, sources));
+    case "grouped":
+      return groupBySource(items, sources).flatMap((group) => group.items);
+  }
+}
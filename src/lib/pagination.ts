@@ -0,0 +1,162 @@
+import { createHash } from "node:crypto";
+import { compareItemDates, itemDate } from "@/lib/dates";
+import type { CustomItem } from "@/lib/types";
+
+// Namespace of the <atom:link rel="next"> paging link in RSS output
+export const ATOM_NAMESPACE = "http://www.w3.org/2005/Atom";
+
+// The date and identity of an item that was already served
+export type ItemPosition = {
+  // Milliseconds since the epoch, or null for an undated item
+  time: number | null;
+  key: string;
+};
+
+// Where the previous page ended. Date-ordered pages continue after its last
+// item wherever it now sits in the merged list, so items arriving at the top
+// don't shift or repeat later pages. Interleaved orderings instead remember the
+// last item served from each source: a new item in one source changes how every
+// later item interleaves, so a single position would skip or repeat items.
+export type PageCursor =
+  | { kind: "item"; position: ItemPosition }
+  | { kind: "sources"; positions: Record<string, ItemPosition> };
+
+// Identifies an item across requests, without putting its GUID in the URL
+function itemKey(item: CustomItem): string {
+  return createHash("sha256")
+    .update(item.guid || item.link || item.title || "")
+    .digest("hex")
+    .slice(0, 16);
+}
+
+// Identifies a source across requests, without putting its URL in the URL
+function sourceKey(url: string): string {
+  return createHash("sha256").update(url).digest("hex").slice(0, 8);
+}
+
+function positionOf(item: CustomItem): ItemPosition {
+  return { time: itemDate(item)?.getTime() ?? null, key: itemKey(item) };
+}
+
+function isAt(item: CustomItem, position: ItemPosition): boolean {
+  return (
+    itemKey(item) === position.key &&
+    (itemDate(item)?.getTime() ?? null) === position.time
+  );
+}
+
+// Items older than `position`, for when its item has left the list
+function olderThan(items: CustomItem[], position: ItemPosition): CustomItem[] {
+  const { time } = position;
+  if (time === null) {
+    return [];
+  }
+  return items.filter((item) => {
+    const date = itemDate(item);
+    return !date || date.getTime() < time;
+  });
+}
+
+// Item cursors look like "1760000000000.3f2a…", or "u.3f2a…" for an undated
+// item. Source cursors are "s." followed by "<source>-<time>-<item>" for each
+// source, joined with "_".
+export function encodePageCursor(cursor: PageCursor): string {
+  const encode = ({ time, key }: ItemPosition, separator: string) =>
+    `${time ?? "u"}${separator}${key}`;
+  if (cursor.kind === "item") {
+    return encode(cursor.position, ".");
+  }
+  return `s.${Object.entries(cursor.positions)
+    .map(([source, position]) => `${source}-${encode(position, "-")}`)
+    .join("_")}`;
+}
+
+export function parsePageCursor(value: string): PageCursor | null {
+  const parseTime = (time: string) => (time === "u" ? null : Number(time));
+  const itemMatch = value.match(/^(u|\d+)\.([0-9a-f]{16})$/);
+  if (itemMatch) {
+    return {
+      kind: "item",
+      position: { time: parseTime(itemMatch[1]), key: itemMatch[2] },
+    };
+  }
+  if (!value.startsWith("s.")) {
+    return null;
+  }
+  const positions: Record<string, ItemPosition> = {};
+  const entries = value.slice(2);
+  for (const entry of entries ? entries.split("_") : []) {
+    const match = entry.match(/^([0-9a-f]{8})-(u|\d+)-([0-9a-f]{16})$/);
+    if (!match) {
+      return null;
+    }
+    positions[match[1]] = { time: parseTime(match[2]), key: match[3] };
+  }
+  return { kind: "sources", positions };
+}
+
+// The items that follow `position` in the merged list. If its item has since
+// left the list, paging resumes with the items older than it.
+export function itemsAfterCursor(
+  items: CustomItem[],
+  position: ItemPosition,
+): CustomItem[] {
+  const index = items.findIndex((item) => isAt(item, position));
+  return index === -1 ? olderThan(items, position) : items.slice(index + 1);
+}
+
+// The items of each source that come after the last one it already served,
+// newest first within each source, ready to be interleaved again
+export function unservedItems(
+  items: CustomItem[],
+  positions: Record<string, ItemPosition>,
+): CustomItem[] {
+  const bySource = new Map<string, CustomItem[]>();
+  for (const item of items) {
+    const url = item.sourceFeedUrl ?? "";
+    let sourceItems = bySource.get(url);
+    if (!sourceItems) {
+      sourceItems = [];
+      bySource.set(url, sourceItems);
+    }
+    sourceItems.push(item);
+  }
+  return [...bySource].flatMap(([url, sourceItems]) => {
+    const position = positions[sourceKey(url)];
+    if (!position) {
+      return sourceItems;
+    }
+    return itemsAfterCursor(sourceItems.sort(compareItemDates), position);
+  });
+}
+
+// The cursor for the page after `pageItems`. Source cursors carry over the
+// positions of sources that had nothing on this page.
+export function cursorAfterPage(
+  pageItems: CustomItem[],
+  previous: PageCursor | undefined,
+  perSource: boolean,
+): PageCursor {
+  if (!perSource) {
+    return {
+      kind: "item",
+      position: positionOf(pageItems[pageItems.length - 1]),
+    };
+  }
+  const positions =
+    previous?.kind === "sources" ? { ...previous.positions } : {};
+  for (const item of pageItems) {
+    // Failed-feed items aren't paged
+    if (item.sourceFeedUrl) {
+      positions[sourceKey(item.sourceFeedUrl)] = positionOf(item);
+    }
+  }
+  return { kind: "sources", positions };
+}
+
+// The request URL with its cursor moved to the end of this page
+export function nextPageUrl(requestUrl: string, cursor: PageCursor): string {
+  const url = new URL(requestUrl);
+  url.searchParams.set("cursor", encodePageCursor(cursor));
+  return url.toString();
+}
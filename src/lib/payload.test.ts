@@ -0,0 +1,132 @@
+import { describe, expect, it } from "bun:test";
+import {
+  type FeedConfig,
+  FeedConfigError,
+  decodeFeedConfig,
+  encodeFeedConfig,
+  readFeedConfig,
+} from "@/lib/config";
+import {
+  CHECKSUMMED_PAYLOAD_PREFIX,
+  PayloadChecksumError,
+  base32Decode,
+  base32Encode,
+  crc32,
+  decodeChecksummedPayload,
+  encodeChecksummedPayload,
+} from "@/lib/payload";
+import LZString from "lz-string";
+
+const config: FeedConfig = {
+  version: 2,
+  sources: [
+    { url: "https://example.com/feed.xml" },
+    { url: "https://example.org/rss", title: "Example Org", limit: 5 },
+  ],
+};
+
+describe("base32", () => {
+  it("should match the RFC 4648 test vectors", () => {
+    const bytes = (value: string) => new TextEncoder().encode(value);
+    expect(base32Encode(bytes("f"))).toBe("my");
+    expect(base32Encode(bytes("fooba"))).toBe("mzxw6ytb");
+    expect(base32Encode(bytes("foobar"))).toBe("mzxw6ytboi");
+  });
+
+  it("should round-trip in either case", () => {
+    const bytes = new Uint8Array([0, 1, 127, 128, 254, 255, 42]);
+    const encoded = base32Encode(bytes);
+    expect(base32Decode(encoded)).toEqual(bytes);
+    expect(base32Decode(encoded.toUpperCase())).toEqual(bytes);
+  });
+
+  it("should reject characters outside the alphabet", () => {
+    expect(base32Decode("mzxw1")).toBeNull();
+  });
+});
+
+describe("crc32", () => {
+  it("should match the standard check value", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+});
+
+describe("checksummed payloads", () => {
+  it("should round-trip JSON", () => {
+    const json = JSON.stringify(config);
+    const payload = encodeChecksummedPayload(json);
+    expect(payload.startsWith(CHECKSUMMED_PAYLOAD_PREFIX)).toBe(true);
+    expect(payload).toBe(payload.toLowerCase());
+    expect(decodeChecksummedPayload(payload)).toBe(json);
+  });
+
+  it("should detect a changed character", () => {
+    const payload = encodeChecksummedPayload(JSON.stringify(config));
+    const index = payload.length - 10;
+    const changed = payload[index] === "a" ? "b" : "a";
+    const damaged =
+      payload.slice(0, index) + changed + payload.slice(index + 1);
+    expect(() => decodeChecksummedPayload(damaged)).toThrow(
+      PayloadChecksumError,
+    );
+  });
+
+  it("should detect a truncated payload", () => {
+    const payload = encodeChecksummedPayload(JSON.stringify(config));
+    expect(() => decodeChecksummedPayload(payload.slice(0, -6))).toThrow(
+      PayloadChecksumError,
+    );
+  });
+});
+
+describe("decodeFeedConfig", () => {
+  it("should decode payloads from encodeFeedConfig", () => {
+    expect(decodeFeedConfig(encodeFeedConfig(config))).toEqual(config);
+  });
+
+  it("should decode payloads whose case was changed", () => {
+    const payload = encodeFeedConfig(config);
+    expect(decodeFeedConfig(payload.toUpperCase())).toEqual(config);
+  });
+
+  it("should still decode legacy LZString payloads", () => {
+    const legacy = LZString.compressToEncodedURIComponent(
+      JSON.stringify(config),
+    );
+    expect(decodeFeedConfig(legacy)).toEqual(config);
+  });
+
+  it("should report damaged payloads as a FeedConfigError", () => {
+    const payload = encodeFeedConfig(config);
+    expect(() => decodeFeedConfig(payload.slice(0, -3))).toThrow(
+      FeedConfigError,
+    );
+  });
+});
+
+describe("readFeedConfig", () => {
+  it("should auto-detect the encoding of the feeds parameter", () => {
+    const legacy = LZString.compressToEncodedURIComponent(
+      JSON.stringify(config),
+    );
+    for (const feeds of [encodeFeedConfig(config), legacy]) {
+      expect(readFeedConfig(new URLSearchParams({ feeds }))).toEqual(config);
+    }
+  });
+
+  it("should explain damaged payloads without blaming Safari", () => {
+    const payload = encodeFeedConfig(config);
+    expect(() =>
+      readFeedConfig(new URLSearchParams({ feeds: payload.slice(0, -3) })),
+    ).toThrow(/damaged or incomplete/);
+  });
+
+  it("should keep the Safari hint for lowercased legacy payloads", () => {
+    const legacy = LZString.compressToEncodedURIComponent(
+      JSON.stringify(config),
+    );
+    expect(() =>
+      readFeedConfig(new URLSearchParams({ feeds: legacy.toLowerCase() })),
+    ).toThrow(/Safari/);
+  });
+});
@@ -0,0 +1,110 @@
+import LZString from "lz-string";
+
+// The `feeds` payload used to be LZString's URI-safe output, which is
+// case-sensitive and breaks when Safari or a chat app lowercases a link (#7).
+// Payloads starting with this prefix are instead LZ-compressed bytes plus a
+// CRC-32, in lowercase base32, so they survive case folding and damage is
+// detected rather than decoded into garbage. "." never appears in the old
+// encoding, which keeps the two apart.
+export const CHECKSUMMED_PAYLOAD_PREFIX = "b1.";
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+// Thrown when a checksummed payload is malformed or fails its checksum
+export class PayloadChecksumError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayloadChecksumError";
+  }
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// RFC 4648 base32, lowercase and unpadded
+export function base32Encode(bytes: Uint8Array): string {
+  let output = "";
+  let buffer = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+// Accepts either case; returns null on characters outside the alphabet
+export function base32Decode(value: string): Uint8Array | null {
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const character of value.toLowerCase()) {
+    const index = BASE32_ALPHABET.indexOf(character);
+    if (index === -1) {
+      return null;
+    }
+    buffer = ((buffer << 5) | index) & 0xfff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+export function isChecksummedPayload(payload: string): boolean {
+  return payload.toLowerCase().startsWith(CHECKSUMMED_PAYLOAD_PREFIX);
+}
+
+export function encodeChecksummedPayload(json: string): string {
+  const compressed = LZString.compressToUint8Array(json);
+  const checksum = crc32(compressed);
+  const bytes = new Uint8Array(compressed.length + 4);
+  bytes.set(compressed);
+  new DataView(bytes.buffer).setUint32(compressed.length, checksum);
+  return CHECKSUMMED_PAYLOAD_PREFIX + base32Encode(bytes);
+}
+
+export function decodeChecksummedPayload(payload: string): string {
+  const bytes = base32Decode(
+    payload.slice(CHECKSUMMED_PAYLOAD_PREFIX.length).trim(),
+  );
+  if (!bytes || bytes.length <= 4) {
+    throw new PayloadChecksumError("The payload is not valid base32");
+  }
+  const compressed = bytes.subarray(0, bytes.length - 4);
+  const checksum = new DataView(
+    bytes.buffer,
+    bytes.byteOffset,
+    bytes.byteLength,
+  ).getUint32(bytes.length - 4);
+  if (crc32(compressed) !== checksum) {
+    throw new PayloadChecksumError("The payload failed its checksum");
+  }
+  const json = LZString.decompressFromUint8Array(compressed);
+  if (!json) {
+    throw new PayloadChecksumError("The payload could not be decompressed");
+  }
+  return json;
+}
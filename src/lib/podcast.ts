@@ -0,0 +1,64 @@
+import type { CustomItem, Enclosure, JSONFeedItem } from "@/lib/types";
+
+export const ITUNES_NAMESPACE = "http://www.itunes.com/dtds/podcast-1.0.dtd";
+
+function toNumber(value: unknown): number | undefined {
+  const number = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(number)
+    ? number
+    : undefined;
+}
+
+// Converts an itunes:duration ("3723", "62:03" or "1:02:03") to seconds
+export function itunesDurationToSeconds(duration?: string): number | undefined {
+  if (!duration || !/^\d+(:\d+){0,2}$/.test(duration.trim())) {
+    return undefined;
+  }
+  return duration
+    .trim()
+    .split(":")
+    .reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+// rss-parser exposes the RSS <enclosure> attributes as `item.enclosure`
+export function enclosuresFromRSS(item: CustomItem): Enclosure[] | undefined {
+  const enclosure = item.enclosure;
+  if (!enclosure?.url) {
+    return undefined;
+  }
+  return [
+    {
+      url: enclosure.url,
+      type: enclosure.type || undefined,
+      length: toNumber(enclosure.length),
+      duration: itunesDurationToSeconds(item.itunes?.duration),
+    },
+  ];
+}
+
+export function enclosuresFromJSONFeed(
+  item: JSONFeedItem,
+): Enclosure[] | undefined {
+  const enclosures = (item.attachments || [])
+    .filter((attachment) => attachment?.url)
+    .map((attachment) => ({
+      url: attachment.url,
+      type: attachment.mime_type || undefined,
+      length: toNumber(attachment.size_in_bytes),
+      title: attachment.title,
+      duration: toNumber(attachment.duration_in_seconds),
+    }));
+  return enclosures.length > 0 ? enclosures : undefined;
+}
+
+export function enclosuresToJSONFeed(
+  enclosures: Enclosure[],
+): NonNullable<JSONFeedItem["attachments"]> {
+  return enclosures.map((enclosure) => ({
+    url: enclosure.url,
+    mime_type: enclosure.type || "application/octet-stream",
+    title: enclosure.title,
+    size_in_bytes: enclosure.length,
+    duration_in_seconds: enclosure.duration,
+  }));
+}
@@ -0,0 +1,52 @@
+import sanitizeHtml from "sanitize-html";
+
+// Markup that survives sanitization. Anything else (scripts, styles, iframes,
+// forms, event handlers, inline styles) is dropped, keeping its text.
+const SANITIZE_OPTIONS: sanitizeHtml.IOptions = {
+  allowedTags: [
+    ...sanitizeHtml.defaults.allowedTags,
+    "img",
+    "picture",
+    "source",
+    "figure",
+    "figcaption",
+    "audio",
+    "video",
+    "del",
+    "ins",
+    "sub",
+    "sup",
+  ],
+  allowedAttributes: {
+    a: ["href", "title", "rel"],
+    img: ["src", "srcset", "sizes", "alt", "title", "width", "height"],
+    source: ["src", "srcset", "sizes", "type", "media"],
+    audio: ["src", "controls"],
+    video: ["src", "controls", "poster", "width", "height"],
+    abbr: ["title"],
+    blockquote: ["cite"],
+    q: ["cite"],
+    td: ["colspan", "rowspan"],
+    th: ["colspan", "rowspan", "scope"],
+    ol: ["start", "reversed", "type"],
+    li: ["value"],
+    time: ["datetime"],
+  },
+  // Relative URLs are kept; anything with a scheme must use one of these, so
+  // javascript: and data: URLs are removed
+  allowedSchemes: ["http", "https", "mailto"],
+  allowedSchemesByTag: { img: ["http", "https"] },
+  allowedSchemesAppliedToAttributes: ["href", "src", "cite", "poster"],
+  allowProtocolRelative: true,
+  // Dropped along with everything inside them, rather than kept as text
+  nonTextTags: ["script", "style", "textarea", "option", "noscript", "title"],
+  transformTags: {
+    // Links open outside the page that renders the feed
+    a: sanitizeHtml.simpleTransform("a", { rel: "noopener noreferrer" }),
+  },
+};
+
+// Allowlist-based cleanup of item HTML from untrusted feeds
+export function sanitizeContent(html: string): string {
+  return sanitizeHtml(html, SANITIZE_OPTIONS);
+}
@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import type { LookupAddress } from "node:dns";
+import { BlockedUrlError, assertUrlAllowed, pinnedLookup } from "@/lib/ssrf";
+
+const lookupAll = (hostname: string) =>
+  new Promise<LookupAddress[]>((resolve, reject) => {
+    pinnedLookup(hostname, { all: true }, (error, addresses) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(addresses as LookupAddress[]);
+      }
+    });
+  });
+
+describe("pinnedLookup", () => {
+  const allowlist = process.env.FEED_URL_ALLOWLIST;
+
+  afterEach(() => {
+    if (allowlist === undefined) {
+      delete process.env.FEED_URL_ALLOWLIST;
+    } else {
+      process.env.FEED_URL_ALLOWLIST = allowlist;
+    }
+  });
+
+  it("should refuse to connect to blocked addresses", async () => {
+    delete process.env.FEED_URL_ALLOWLIST;
+    await expect(lookupAll("localhost")).rejects.toBeInstanceOf(
+      BlockedUrlError,
+    );
+  });
+
+  it("should hand over the checked addresses of allowlisted hosts", async () => {
+    process.env.FEED_URL_ALLOWLIST = "localhost";
+    const addresses = await lookupAll("localhost");
+    expect(addresses.length).toBeGreaterThan(0);
+    expect(
+      addresses.every(({ address }) => ["127.0.0.1", "::1"].includes(address)),
+    ).toBe(true);
+  });
+
+  it("should pass a single address when not asked for all of them", async () => {
+    process.env.FEED_URL_ALLOWLIST = "localhost";
+    const address = await new Promise((resolve, reject) => {
+      pinnedLookup("localhost", { family: 4 }, (error, address, family) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve([address, family]);
+        }
+      });
+    });
+    expect(address).toEqual(["127.0.0.1", 4]);
+  });
+});
+
+describe("assertUrlAllowed", () => {
+  it("should give up on DNS as soon as the signal aborts", async () => {
+    const controller = new AbortController();
+    const deadline = new Error("deadline passed");
+    const check = assertUrlAllowed(
+      "http://slow-to-resolve.invalid/feed.xml",
+      [],
+      controller.signal,
+    );
+    controller.abort(deadline);
+    await expect(check).rejects.toBe(deadline);
+  });
+});
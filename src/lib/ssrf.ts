@@ -0,0 +1,236 @@
+import type { LookupAddress, LookupOptions } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+import { Agent } from "undici";
+
+// Feed URLs come from whoever builds the merged-feed link, so they must not be
+// able to point the server at itself, the local network or cloud metadata
+// endpoints.
+const BLOCKED_SUBNETS: Array<[string, number, "ipv4" | "ipv6"]> = [
+  ["0.0.0.0", 8, "ipv4"], // "this" network
+  ["10.0.0.0", 8, "ipv4"], // private
+  ["100.64.0.0", 10, "ipv4"], // carrier-grade NAT
+  ["127.0.0.0", 8, "ipv4"], // loopback
+  ["169.254.0.0", 16, "ipv4"], // link-local, including metadata services
+  ["172.16.0.0", 12, "ipv4"], // private
+  ["192.0.0.0", 24, "ipv4"], // IETF protocol assignments
+  ["192.0.2.0", 24, "ipv4"], // documentation
+  ["192.88.99.0", 24, "ipv4"], // 6to4 relay anycast
+  ["192.168.0.0", 16, "ipv4"], // private
+  ["198.18.0.0", 15, "ipv4"], // benchmarking
+  ["198.51.100.0", 24, "ipv4"], // documentation
+  ["203.0.113.0", 24, "ipv4"], // documentation
+  ["224.0.0.0", 4, "ipv4"], // multicast
+  ["240.0.0.0", 4, "ipv4"], // reserved and broadcast
+  ["::", 128, "ipv6"], // unspecified
+  ["::1", 128, "ipv6"], // loopback
+  ["64:ff9b::", 96, "ipv6"], // NAT64
+  ["100::", 64, "ipv6"], // discard
+  ["2001::", 23, "ipv6"], // IETF protocol assignments, including Teredo
+  ["2001:db8::", 32, "ipv6"], // documentation
+  ["2002::", 16, "ipv6"], // 6to4
+  ["fc00::", 7, "ipv6"], // unique local
+  ["fe80::", 10, "ipv6"], // link-local
+  ["ff00::", 8, "ipv6"], // multicast
+];
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix, type] of BLOCKED_SUBNETS) {
+  blockedAddresses.addSubnet(network, prefix, type);
+}
+
+const ALLOWED_PROTOCOLS = ["http:", "https:"];
+
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockedUrlError";
+  }
+}
+
+// True for loopback, private, link-local and other non-public addresses.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+export function isBlockedAddress(address: string): boolean {
+  const version = isIP(address);
+  if (version === 0) {
+    return true;
+  }
+  return blockedAddresses.check(address, version === 4 ? "ipv4" : "ipv6");
+}
+
+// FEED_URL_ALLOWLIST is a comma-separated list of hostnames, IP addresses and
+// CIDR ranges that may be fetched even though they're not public, e.g.
+// "localhost,10.0.0.0/8" for development or an internal feed server.
+export function getAllowlist(): string[] {
+  return (process.env.FEED_URL_ALLOWLIST || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function allowlistMatches(
+  allowlist: string[],
+  hostname: string,
+  address?: string,
+): boolean {
+  return allowlist.some((entry) => {
+    if (entry === hostname) {
+      return true;
+    }
+    if (!address) {
+      return false;
+    }
+    const [network, prefix] = entry.split("/");
+    const version = isIP(network);
+    if (version === 0 || version !== isIP(address)) {
+      return false;
+    }
+    const type = version === 4 ? "ipv4" : "ipv6";
+    const list = new BlockList();
+    if (prefix === undefined) {
+      list.addAddress(network, type);
+    } else {
+      list.addSubnet(network, Number(prefix), type);
+    }
+    return list.check(address, type);
+  });
+}
+
+// Rejects as soon as the signal aborts, e.g. when the request deadline passes,
+// even if the underlying promise never settles
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+function normalizeHostname(hostname: string): string {
+  return hostname.toLowerCase().replace(/^\[|\]$/g, "");
+}
+
+// Resolves a hostname and throws a BlockedUrlError if any of its addresses is
+// not public (or allowlisted). The addresses returned are the ones checked.
+async function resolveAllowedAddresses(
+  hostname: string,
+  allowlist: string[],
+  signal?: AbortSignal,
+): Promise<LookupAddress[]> {
+  const family = isIP(hostname);
+  let addresses: LookupAddress[];
+  if (family) {
+    addresses = [{ address: hostname, family }];
+  } else {
+    try {
+      addresses = await abortable(
+        lookup(hostname, { all: true, verbatim: true }),
+        signal,
+      );
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      throw new BlockedUrlError(`Could not resolve host ${hostname}`);
+    }
+  }
+  if (addresses.length === 0) {
+    throw new BlockedUrlError(`Could not resolve host ${hostname}`);
+  }
+  if (allowlistMatches(allowlist, hostname)) {
+    return addresses;
+  }
+
+  const blocked = addresses.find(
+    ({ address }) =>
+      isBlockedAddress(address) &&
+      !allowlistMatches(allowlist, hostname, address),
+  );
+  if (blocked) {
+    throw new BlockedUrlError(
+      `Blocked request to ${hostname}: ${blocked.address} is not a public address`,
+    );
+  }
+  return addresses;
+}
+
+// Throws a BlockedUrlError unless the URL uses HTTP(S) and every address its
+// host resolves to is public (or allowlisted). This is checked again for each
+// redirect, and the connection itself goes through pinnedLookup, so a DNS
+// server can't answer differently once the check has passed.
+export async function assertUrlAllowed(
+  url: string,
+  allowlist: string[] = getAllowlist(),
+  signal?: AbortSignal,
+): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new BlockedUrlError(`Invalid URL: ${url}`);
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+    throw new BlockedUrlError(
+      `Blocked URL scheme "${parsed.protocol}"; only http and https are allowed`,
+    );
+  }
+
+  const hostname = normalizeHostname(parsed.hostname);
+  if (allowlistMatches(allowlist, hostname)) {
+    return;
+  }
+  await resolveAllowedAddresses(hostname, allowlist, signal);
+}
+
+type LookupCallback = (
+  error: Error | null,
+  address: string | LookupAddress[],
+  family?: number,
+) => void;
+
+// A dns.lookup replacement for outgoing connections: it runs the same checks
+// as assertUrlAllowed and hands the socket only the addresses that passed, so
+// what gets connected to is exactly what was checked.
+export function pinnedLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: LookupCallback,
+): void {
+  resolveAllowedAddresses(normalizeHostname(hostname), getAllowlist()).then(
+    (addresses) => {
+      const allowed = options.family
+        ? addresses.filter(({ family }) => family === options.family)
+        : addresses;
+      if (allowed.length === 0) {
+        callback(
+          new BlockedUrlError(`Could not resolve host ${hostname}`),
+          options.all ? [] : "",
+        );
+      } else if (options.all) {
+        callback(null, allowed);
+      } else {
+        callback(null, allowed[0].address, allowed[0].family);
+      }
+    },
+    (error) => callback(error, options.all ? [] : ""),
+  );
+}
+
+let pinnedAgent: Agent | null = null;
+
+// The dispatcher feeds are fetched through, with connections pinned to
+// addresses that passed the URL policy. Bun's built-in undici ignores custom
+// dispatchers, so this only takes effect on Node, which Next runs on.
+export function getPinnedAgent(): Agent {
+  pinnedAgent ??= new Agent({ connect: { lookup: pinnedLookup } });
+  return pinnedAgent;
+}
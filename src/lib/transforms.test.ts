@@ -0,0 +1,141 @@
+import { describe, expect, it } from "bun:test";
+import {
+  TRANSFORMS,
+  applyTransforms,
+  transformsForSource,
+} from "@/lib/transforms";
+
+describe("reddit transform", () => {
+  const { reddit } = TRANSFORMS;
+
+  it("should keep only the post body", () => {
+    const content =
+      '<table><tr><td><a href="https://i.redd.it/x.jpg">thumb</a></td></tr></table><div class="md"><p>The actual post</p></div>';
+    expect(reddit.apply(content)).toBe("The actual post</p></div>");
+  });
+
+  it("should leave content without the marker alone", () => {
+    expect(reddit.apply("<p>No marker</p>")).toBe("<p>No marker</p>");
+  });
+
+  it("should apply to Reddit hosts only", () => {
+    expect(reddit.appliesTo(new URL("https://www.reddit.com/r/rss/.rss"))).toBe(
+      true,
+    );
+    expect(reddit.appliesTo(new URL("https://old.reddit.com/.rss"))).toBe(true);
+    expect(reddit.appliesTo(new URL("https://notreddit.com/.rss"))).toBe(false);
+  });
+});
+
+describe("appeared-first transform", () => {
+  const transform = TRANSFORMS["appeared-first"];
+
+  it("should strip a linked WordPress footer", () => {
+    const content =
+      '<p>Body text.</p>\n<p>The post <a rel="nofollow" href="https://example.com/p">A Post</a> appeared first on <a rel="nofollow" href="https://example.com">Example Blog</a>.</p>\n';
+    expect(transform.apply(content)).toBe("<p>Body text.</p>");
+  });
+
+  it("should strip a plain-text footer", () => {
+    expect(
+      transform.apply("Body text. The post A Post appeared first on Example."),
+    ).toBe("Body text.");
+  });
+
+  it("should not touch the phrase in the middle of the content", () => {
+    const content =
+      "<p>The post office appeared first on the corner.</p><p>More text.</p>";
+    expect(transform.apply(content)).toBe(content);
+  });
+
+  it("should handle adversarial content in linear time", () => {
+    // The footer regex backtracks quadratically over runs of "The post "
+    const runs = "The post ".repeat(40000);
+    const started = performance.now();
+    expect(transform.apply(runs)).toBe(runs);
+    expect(transform.apply(`${runs}appeared first on`)).toBe(
+      `${runs}appeared first on`,
+    );
+    expect(
+      transform.apply(
+        `${runs}<p>The post <a href="/p">A Post</a> appeared first on <a href="/">Example</a>.</p>`,
+      ),
+    ).toBe(runs.trimEnd());
+    expect(performance.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe("tracking-pixels transform", () => {
+  const transform = TRANSFORMS["tracking-pixels"];
+
+  it("should remove 1x1 images", () => {
+    expect(
+      transform.apply(
+        '<p>Text<img src="https://example.com/p.gif" width="1" height="1" alt=""></p>',
+      ),
+    ).toBe("<p>Text</p>");
+  });
+
+  it("should remove images from known tracking hosts", () => {
+    expect(
+      transform.apply(
+        'A<img src="https://feeds.feedburner.com/~r/Example/~4/abc" /> B<img src="//pixel.wp.com/b.gif?x=1">',
+      ),
+    ).toBe("A B");
+  });
+
+  it("should keep ordinary images", () => {
+    const content =
+      '<img src="https://example.com/photo.jpg" width="10" height="1"><img src="https://example.com/a.png">';
+    expect(transform.apply(content)).toBe(content);
+  });
+});
+
+describe("transformsForSource", () => {
+  it("should pick transforms by host when the source doesn't choose", () => {
+    expect(
+      transformsForSource(
+        { url: "https://www.reddit.com/.rss" },
+        "https://www.reddit.com/.rss",
+      ),
+    ).toEqual([
+      TRANSFORMS.reddit,
+      TRANSFORMS["appeared-first"],
+      TRANSFORMS["tracking-pixels"],
+    ]);
+    expect(
+      transformsForSource(
+        { url: "https://blog.example.com/feed" },
+        "https://blog.example.com/feed",
+      ),
+    ).toEqual([TRANSFORMS["appeared-first"], TRANSFORMS["tracking-pixels"]]);
+  });
+
+  it("should use the source's own list, in order", () => {
+    expect(
+      transformsForSource(
+        { url: "https://www.reddit.com/.rss", transforms: ["tracking-pixels"] },
+        "https://www.reddit.com/.rss",
+      ),
+    ).toEqual([TRANSFORMS["tracking-pixels"]]);
+    expect(
+      transformsForSource(
+        { url: "https://www.reddit.com/.rss", transforms: [] },
+        "https://www.reddit.com/.rss",
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("applyTransforms", () => {
+  it("should run transforms in order", () => {
+    const content =
+      '<div class="md"><p>Post<img src="https://example.com/t.gif" width="1" height="1"></p></div>';
+    expect(
+      applyTransforms(content, [
+        TRANSFORMS.reddit,
+        TRANSFORMS["tracking-pixels"],
+      ]),
+    ).toBe("Post</p></div>");
+  });
+});
@@ -0,0 +1,125 @@
+import type { FeedSource } from "@/lib/config";
+
+// A cleanup applied to the HTML content of every item from a source
+export type ContentTransform = {
+  description: string;
+  // Whether the transform runs for a source that doesn't pick its own
+  // transforms, judged by the feed URL
+  appliesTo: (feedUrl: URL) => boolean;
+  apply: (content: string) => string;
+};
+
+function hostMatches(feedUrl: URL, domain: string): boolean {
+  const host = feedUrl.hostname.toLowerCase();
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+const REDDIT_BODY_MARKER = '<div class="md"><p>';
+
+// WordPress' "The post <a>X</a> appeared first on <a>Y</a>." footer
+const APPEARED_FIRST_FOOTER =
+  /\s*(?:<p>\s*)?The post\s+(?:<a\b[^>]*>[^<]*<\/a>|[^<]*?)\s+appeared first on\s+(?:<a\b[^>]*>[^<]*<\/a>|[^<]*?)\s*\.?\s*(?:<\/p>\s*)?$/i;
+
+// How far the footer may reach on either side of its last "appeared first
+// on". The footer regex backtracks quadratically, so it only ever sees this
+// much of the content.
+const APPEARED_FIRST_WINDOW = 1024;
+
+function stripAppearedFirstFooter(content: string): string {
+  const index = content.toLowerCase().lastIndexOf("appeared first on");
+  if (index === -1 || content.length - index > APPEARED_FIRST_WINDOW) {
+    return content;
+  }
+  const start = Math.max(0, index - APPEARED_FIRST_WINDOW);
+  return (
+    content.slice(0, start) +
+    content.slice(start).replace(APPEARED_FIRST_FOOTER, "")
+  );
+}
+
+// Hosts that only serve tracking pixels and read-receipt beacons
+const TRACKING_PIXEL_HOSTS = [
+  "feeds.feedburner.com/~r/",
+  "feedproxy.google.com/~r/",
+  "pixel.wp.com",
+  "stats.wordpress.com",
+  "pixel.quantserve.com",
+  "www.google-analytics.com",
+  "counter.theconversation.com",
+  "feeds.wordpress.com/1.0/",
+];
+
+// Whether an <img> tag is a 1x1 image or points at a known tracking host
+export function isTrackingPixel(tag: string): boolean {
+  const src = tag.match(/\ssrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+  const url = (src?.[1] ?? src?.[2] ?? src?.[3] ?? "").replace(
+    /^(?:https?:)?\/\//i,
+    "",
+  );
+  const oneByOne =
+    /\swidth\s*=\s*["']?[01](?:px)?["'\s/>]/i.test(tag) &&
+    /\sheight\s*=\s*["']?[01](?:px)?["'\s/>]/i.test(tag);
+  return oneByOne || TRACKING_PIXEL_HOSTS.some((host) => url.startsWith(host));
+}
+
+export const TRANSFORMS = {
+  reddit: {
+    description:
+      "Keeps only the post body of Reddit items, dropping the thumbnail table",
+    appliesTo: (feedUrl) =>
+      hostMatches(feedUrl, "reddit.com") || hostMatches(feedUrl, "redd.it"),
+    apply: (content) => {
+      const index = content.indexOf(REDDIT_BODY_MARKER);
+      return index === -1
+        ? content
+        : content.substring(index + REDDIT_BODY_MARKER.length);
+    },
+  },
+  "appeared-first": {
+    description: 'Strips "The post X appeared first on Y." footers',
+    appliesTo: () => true,
+    apply: stripAppearedFirstFooter,
+  },
+  "tracking-pixels": {
+    description: "Removes 1x1 images and known tracking beacons",
+    appliesTo: () => true,
+    apply: (content) =>
+      content.replace(/<img\b[^>]*>/gi, (tag) =>
+        isTrackingPixel(tag) ? "" : tag,
+      ),
+  },
+} satisfies Record<string, ContentTransform>;
+
+export type TransformName = keyof typeof TRANSFORMS;
+
+export const TRANSFORM_NAMES = Object.keys(TRANSFORMS) as TransformName[];
+
+// The transforms a source asked for, in its order, or else every transform
+// that applies to its feed URL
+export function transformsForSource(
+  source: FeedSource,
+  feedUrl: string,
+): ContentTransform[] {
+  if (source.transforms) {
+    return source.transforms.map((name) => TRANSFORMS[name]);
+  }
+  let url: URL;
+  try {
+    url = new URL(feedUrl);
+  } catch {
+    return [];
+  }
+  return Object.values(TRANSFORMS).filter((transform) =>
+    transform.appliesTo(url),
+  );
+}
+
+export function applyTransforms(
+  content: string,
+  transforms: ContentTransform[],
+): string {
+  return transforms.reduce(
+    (result, transform) => transform.apply(result),
+    content,
+  );
+}
@@ -1,3 +1,39 @@
+// A reference to one of the feeds that make up a merged feed
+export type FeedSourceRef = {
+  title?: string;
+  url: string;
+};
+
+// A media file attached to an item: an RSS <enclosure> or a JSON Feed attachment
+export type Enclosure = {
+  url: string;
+  type?: string;
+  // Size in bytes
+  length?: number;
+  title?: string;
+  // Duration in seconds
+  duration?: number;
+};
+
+// The itunes: item fields carried through for podcast apps
+export type ItunesItem = {
+  duration?: string;
+  episode?: string;
+  image?: string;
+  explicit?: string;
+  [key: string]: any;
+};
+
+// A source that couldn't be fetched or parsed
+export type FeedFailure = {
+  url: string;
+  error: string;
+  // Stable for as long as the source keeps failing the same way
+  guid: string;
+  // When the error was first seen (RFC 3339)
+  since: string;
+};
+
 // Types for RSS items
 export type CustomItem = {
   title?: string;
@@ -12,6 +48,13 @@ export type CustomItem = {
   // Source tracking
   sourceFeedTitle?: string;
   sourceFeedUrl?: string;
+  // Other sources that published the same story, filled in by deduplication
+  duplicateSources?: FeedSourceRef[];
+  // Podcast episodes and other attached media
+  enclosures?: Enclosure[];
+  itunes?: ItunesItem;
+  // The item's canonical image, from media:*, itunes:image or JSON Feed
+  image?: string;
   [key: string]: any; // For additional fields from RSS parser
 };
 
@@ -19,7 +62,13 @@ export type CustomFeed = {
   title?: string;
   description?: string;
   link?: string;
+  // The document's xml:base, if it declares one at the top level
+  xmlBase?: string;
   items: CustomItem[];
+  // Failed sources, listed in the diagnostics block of the output
+  failures?: FeedFailure[];
+  // The next page of the merged feed, if there is one
+  nextUrl?: string;
   [key: string]: any; // For additional fields from RSS parser
 };
 
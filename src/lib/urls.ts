@@ -0,0 +1,93 @@
+import type { CustomFeed, CustomItem } from "@/lib/types";
+
+// Attributes holding a single URL; srcset is handled separately
+const URL_ATTRIBUTES = [
+  "href",
+  "src",
+  "poster",
+  "cite",
+  "action",
+  "background",
+];
+
+function isAbsolute(value: string): boolean {
+  return /^[a-z][a-z\d+.-]*:/i.test(value);
+}
+
+// Resolves a possibly-relative URL, leaving absolute and unparseable ones alone
+export function resolveUrl(value: string, base?: string): string {
+  const trimmed = value.trim();
+  if (!base || !trimmed || isAbsolute(trimmed)) {
+    return value;
+  }
+  try {
+    return new URL(trimmed, base).toString();
+  } catch {
+    return value;
+  }
+}
+
+function resolveSrcset(srcset: string, base: string): string {
+  return srcset
+    .split(",")
+    .map((candidate) =>
+      candidate.replace(
+        /^(\s*)(\S+)/,
+        (_, space, url) => space + resolveUrl(url, base),
+      ),
+    )
+    .join(",");
+}
+
+// Rewrites relative href, src (and similar) and srcset attributes in HTML
+export function resolveRelativeUrls(html: string, base?: string): string {
+  if (!base) {
+    return html;
+  }
+  return html.replace(/<[a-z][^>]*>/gi, (tag) =>
+    tag.replace(
+      /(\s)([\w:-]+)(\s*=\s*)(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g,
+      (attribute, space, name, equals, double, single, bare) => {
+        const lowerName = name.toLowerCase();
+        const value: string = double ?? single ?? bare;
+        let resolved: string;
+        if (lowerName === "srcset") {
+          resolved = resolveSrcset(value, base);
+        } else if (URL_ATTRIBUTES.includes(lowerName)) {
+          resolved = resolveUrl(value, base);
+        } else {
+          return attribute;
+        }
+        const quote = single !== undefined ? "'" : '"';
+        return `${space}${name}${equals}${quote}${resolved}${quote}`;
+      },
+    ),
+  );
+}
+
+// The base for an item's relative URLs: its own link, then the feed's
+// xml:base or website link, then the URL the feed was fetched from
+export function itemBaseUrl(
+  item: CustomItem,
+  feed: CustomFeed,
+  feedUrl: string,
+): string {
+  const feedBase = resolveUrl(feed.xmlBase || feed.link || feedUrl, feedUrl);
+  return item.link ? resolveUrl(item.link, feedBase) : feedBase;
+}
+
+// Makes an item's link, image and content URLs absolute, so they keep working
+// when served from the merged feed's origin
+export function resolveItemUrls(
+  item: CustomItem,
+  feed: CustomFeed,
+  feedUrl: string,
+): CustomItem {
+  const base = itemBaseUrl(item, feed, feedUrl);
+  return {
+    ...item,
+    link: item.link && base,
+    image: item.image && resolveUrl(item.image, base),
+    content: item.content && resolveRelativeUrls(item.content, base),
+  };
+}